@@ -0,0 +1,266 @@
+import { Fragment } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { chatApi } from "@/lib/chat-api";
+import { ArrowLeft, Loader2, RefreshCw } from "lucide-react";
+import InvestmentChart from "./investment-chart";
+import { calculationLabel } from "@shared/calculators";
+import type { InvestmentResult } from "@shared/investments";
+import type { Calculation } from "@shared/schema";
+
+interface CalculationHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Run shown in detail; null lists them all
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+  // Two runs shown side by side, or empty
+  compareIds: number[];
+  onCompareChange: (ids: number[]) => void;
+}
+
+type Figure = [label: string, value: string | number];
+
+// Keys that name an item in a list of results rather than being a figure
+const NAME_KEYS = ["label", "strategy", "description"];
+
+// Long tables that are shown another way, e.g. as a chart
+const HIDDEN_KEYS = ["projection"];
+
+function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Turns nested inputs or results into labelled rows, naming list items
+// after their label, strategy or description
+function flattenFigures(value: unknown, label = ""): Figure[] {
+  const join = (part: string) => (label ? `${label} › ${part}` : part);
+
+  if (typeof value === "number" || typeof value === "string") {
+    return label ? [[label, value]] : [];
+  }
+  if (typeof value === "boolean") {
+    return label ? [[label, value ? "Yes" : "No"]] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => {
+      const nameKey = NAME_KEYS.find(key => typeof item?.[key] === "string");
+      if (!nameKey) return flattenFigures(item, join(String(i + 1)));
+      const rest = Object.fromEntries(Object.entries(item).filter(([key]) => !NAME_KEYS.includes(key)));
+      return flattenFigures(rest, join(item[nameKey]));
+    });
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([key]) => !HIDDEN_KEYS.includes(key))
+      .flatMap(([key, item]) => flattenFigures(item, join(humanize(key))));
+  }
+  return [];
+}
+
+const formatFigure = (value: string | number | undefined) =>
+  value === undefined ? "—" : typeof value === "number" ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+function FigureTable({ title, figures }: { title: string; figures: Figure[] }) {
+  return (
+    <div>
+      <div className="mb-1 text-xs font-medium text-[hsl(var(--office-text-secondary))]">{title}</div>
+      <div className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-xs">
+        {figures.map(([label, value]) => (
+          <Fragment key={label}>
+            <span className="text-[hsl(var(--office-text-secondary))]">{label}</span>
+            <span className="text-right font-mono">{formatFigure(value)}</span>
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Rows from both runs, with the difference where both are numbers
+function ComparisonTable({ title, a, b }: { title: string; a: Figure[]; b: Figure[] }) {
+  const aValues = new Map(a);
+  const bValues = new Map(b);
+  const labels = Array.from(new Set([...a, ...b].map(([label]) => label)));
+
+  return (
+    <div>
+      <div className="mb-1 text-xs font-medium text-[hsl(var(--office-text-secondary))]">{title}</div>
+      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1 text-xs">
+        {labels.map(label => {
+          const first = aValues.get(label);
+          const second = bValues.get(label);
+          const difference = typeof first === "number" && typeof second === "number" ? second - first : undefined;
+          return (
+            <Fragment key={label}>
+              <span className="text-[hsl(var(--office-text-secondary))]">{label}</span>
+              <span className="text-right font-mono">{formatFigure(first)}</span>
+              <span className="text-right font-mono">{formatFigure(second)}</span>
+              <span className={`text-right font-mono ${difference ? 'text-[hsl(var(--office-accent))]' : 'text-[hsl(var(--office-text-secondary))]'}`}>
+                {difference === undefined ? "" : `${difference > 0 ? "+" : ""}${formatFigure(difference)}`}
+              </span>
+            </Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Past calculator runs, from the endpoints and from the assistant's tool calls
+export default function CalculationHistory({
+  open,
+  onOpenChange,
+  selectedId,
+  onSelect,
+  compareIds,
+  onCompareChange,
+}: CalculationHistoryProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: calculations = [], isLoading } = useQuery<Calculation[]>({
+    queryKey: ['/api/calculations'],
+    enabled: open,
+  });
+
+  const rerun = useMutation({
+    mutationFn: async (id: number) => {
+      return await chatApi.rerunCalculation(id) as Calculation;
+    },
+    onSuccess: (calculation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calculations'] });
+      onSelect(calculation.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-run calculation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = calculations.find(calculation => calculation.id === selectedId);
+  const compared = compareIds
+    .map(id => calculations.find(calculation => calculation.id === id))
+    .filter((calculation): calculation is Calculation => Boolean(calculation));
+
+  const toggleCompare = (id: number, checked: boolean) => {
+    // Checking a third run replaces the oldest pick
+    onCompareChange(checked ? [...compareIds.filter(other => other !== id), id].slice(-2) : compareIds.filter(other => other !== id));
+  };
+
+  const backButton = (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => {
+        onSelect(null);
+        onCompareChange([]);
+      }}
+      className="text-[hsl(var(--office-text-secondary))]"
+    >
+      <ArrowLeft className="w-4 h-4 mr-2" />
+      All runs
+    </Button>
+  );
+
+  const runTitle = (calculation: Calculation) => (
+    <>
+      <span className="font-medium">{calculationLabel(calculation.type)}</span>
+      <span className="text-[hsl(var(--office-text-secondary))]"> · {formatDate(calculation.createdAt)}</span>
+    </>
+  );
+
+  let body;
+  if (isLoading) {
+    body = <Loader2 className="w-4 h-4 animate-spin text-[hsl(var(--office-text-secondary))]" />;
+  } else if (compared.length === 2) {
+    const [a, b] = compared;
+    body = (
+      <div className="space-y-4">
+        {backButton}
+        {a.type !== b.type && (
+          <p className="text-xs text-[hsl(var(--office-text-secondary))]">These runs use different calculators, so few rows line up.</p>
+        )}
+        <div className="space-y-1 text-xs">
+          <div><span className="text-[hsl(var(--office-text-secondary))]">A: </span>{runTitle(a)}</div>
+          <div><span className="text-[hsl(var(--office-text-secondary))]">B: </span>{runTitle(b)}</div>
+        </div>
+        <ComparisonTable title="Inputs (A, B, change)" a={flattenFigures(a.inputs)} b={flattenFigures(b.inputs)} />
+        <ComparisonTable title="Results (A, B, change)" a={flattenFigures(a.results)} b={flattenFigures(b.results)} />
+      </div>
+    );
+  } else if (selected) {
+    body = (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          {backButton}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => rerun.mutate(selected.id)}
+            disabled={rerun.isPending}
+            title="Run again with the current tax tables"
+            className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${rerun.isPending ? 'animate-spin' : ''}`} />
+            Re-run
+          </Button>
+        </div>
+        <div className="text-sm">{runTitle(selected)}</div>
+        {selected.type === "investments" && <InvestmentChart result={selected.results as unknown as InvestmentResult} />}
+        <FigureTable title="Inputs" figures={flattenFigures(selected.inputs)} />
+        <FigureTable title="Results" figures={flattenFigures(selected.results)} />
+      </div>
+    );
+  } else if (calculations.length === 0) {
+    body = (
+      <p className="text-sm text-[hsl(var(--office-text-secondary))]">
+        No calculations yet. Runs from the calculators and from the assistant's tools show up here.
+      </p>
+    );
+  } else {
+    body = (
+      <div className="space-y-1">
+        <p className="mb-2 text-xs text-[hsl(var(--office-text-secondary))]">Tick two runs to compare them.</p>
+        {calculations.map(calculation => (
+          <div
+            key={calculation.id}
+            className="flex items-center space-x-3 rounded-lg px-2 py-2 text-sm hover:bg-[hsl(var(--office-dark))]"
+          >
+            <Checkbox
+              checked={compareIds.includes(calculation.id)}
+              onCheckedChange={(checked) => toggleCompare(calculation.id, checked === true)}
+            />
+            <button onClick={() => onSelect(calculation.id)} className="flex-1 text-left">
+              {runTitle(calculation)}
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto office-scrollbar bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]">
+        <SheetHeader className="mb-4">
+          <SheetTitle className="text-[hsl(var(--office-text))]">Calculation history</SheetTitle>
+          <SheetDescription className="text-[hsl(var(--office-text-secondary))]">
+            Re-running uses the same inputs with the current tax tables.
+          </SheetDescription>
+        </SheetHeader>
+        {body}
+      </SheetContent>
+    </Sheet>
+  );
+}
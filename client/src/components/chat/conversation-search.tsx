@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { useModels } from "@/hooks/use-models";
+import { Loader2, MessageSquare, Search, SlidersHorizontal, X } from "lucide-react";
+import type { SearchResult } from "@shared/schema";
+
+interface ConversationSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  // A message was picked, or a conversation whose title matched (null)
+  onSelect: (conversationId: number, messageId: number | null) => void;
+}
+
+// Waits for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const ROLE_LABELS: Record<string, string> = {
+  user: "You",
+  assistant: "Assistant",
+};
+
+// The snippet with the matched words marked
+function highlightedSnippet(result: SearchResult) {
+  const parts = [];
+  let last = 0;
+  for (const { start, end } of result.highlights) {
+    parts.push(result.snippet.slice(last, start));
+    parts.push(
+      <mark key={start} className="bg-[hsl(var(--office-accent))]/30 text-[hsl(var(--office-text))] rounded-sm">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  }
+  parts.push(result.snippet.slice(last));
+  return parts;
+}
+
+// Search box for the sidebar. Results replace the conversation list while
+// there is a query.
+export default function ConversationSearch({ query, onQueryChange, onSelect }: ConversationSearchProps) {
+  const { models } = useModels();
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const [showFilters, setShowFilters] = useState(false);
+  const [role, setRole] = useState("all");
+  const [model, setModel] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Date inputs cover whole days in local time
+  const params = new URLSearchParams({ q: debouncedQuery });
+  if (role !== "all") params.set("role", role);
+  if (model !== "all") params.set("model", model);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data: results = [], isFetching, error } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?${params}`],
+    enabled: debouncedQuery.length > 0,
+    staleTime: 0,
+  });
+
+  const filtersActive = role !== "all" || model !== "all" || from || to;
+  const selectClass = "h-8 bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))] text-xs";
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-[hsl(var(--office-text-secondary))]" />
+        <Input
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search conversations"
+          className="h-9 pl-8 pr-16 bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))] placeholder:text-[hsl(var(--office-text-secondary))]"
+        />
+        <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1">
+          {query && (
+            <button
+              onClick={() => onQueryChange("")}
+              title="Clear search"
+              className="p-1 text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            title="Filter by date, model or sender"
+            className={`p-1 hover:text-[hsl(var(--office-text))] ${filtersActive ? 'text-[hsl(var(--office-accent))]' : 'text-[hsl(var(--office-text-secondary))]'}`}
+          >
+            <SlidersHorizontal className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 text-xs text-[hsl(var(--office-text-secondary))]">
+          <Select value={role} onValueChange={setRole}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))]">
+              <SelectItem value="all">Anyone</SelectItem>
+              <SelectItem value="user">Your messages</SelectItem>
+              <SelectItem value="assistant">Assistant replies</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={model} onValueChange={setModel}>
+            <SelectTrigger className={selectClass}><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))]">
+              <SelectItem value="all">Any model</SelectItem>
+              {models.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.displayName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="space-y-1">
+            <span>From</span>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} />
+          </label>
+          <label className="space-y-1">
+            <span>To</span>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} />
+          </label>
+        </div>
+      )}
+
+      {debouncedQuery && (
+        <div className="space-y-1">
+          {isFetching && results.length === 0 ? (
+            <Loader2 className="w-4 h-4 mx-auto my-4 animate-spin text-[hsl(var(--office-text-secondary))]" />
+          ) : error ? (
+            <p className="px-2 py-4 text-center text-xs text-red-400">{(error as Error).message}</p>
+          ) : results.length === 0 ? (
+            <p className="px-2 py-4 text-center text-xs text-[hsl(var(--office-text-secondary))]">No matches</p>
+          ) : (
+            results.map(result => (
+              <button
+                key={result.messageId ?? `title-${result.conversationId}`}
+                onClick={() => onSelect(result.conversationId, result.messageId)}
+                className="w-full text-left p-3 rounded-lg hover:bg-[hsl(var(--office-dark))] text-[hsl(var(--office-text))] transition-colors duration-200"
+              >
+                <div className="flex items-center space-x-2 text-xs text-[hsl(var(--office-text-secondary))]">
+                  <MessageSquare className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate flex-1">{result.conversationTitle}</span>
+                  <span className="flex-shrink-0">{new Date(result.createdAt).toLocaleDateString()}</span>
+                </div>
+                <p className="mt-1 text-sm line-clamp-3">
+                  {result.role && (
+                    <span className="text-[hsl(var(--office-text-secondary))]">{ROLE_LABELS[result.role] ?? result.role}: </span>
+                  )}
+                  {highlightedSnippet(result)}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useModels } from "@/hooks/use-models";
+import { chatApi } from "@/lib/chat-api";
+import { SlidersHorizontal } from "lucide-react";
+import type { Conversation, ConversationSettings as Settings } from "@shared/schema";
+
+interface ConversationSettingsProps {
+  conversation: Conversation;
+}
+
+const settingsOf = (conversation: Conversation): Required<Settings> => ({
+  model: conversation.model,
+  temperature: conversation.temperature,
+  maxOutputTokens: conversation.maxOutputTokens,
+  topP: conversation.topP,
+});
+
+export default function ConversationSettings({ conversation }: ConversationSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settingsOf(conversation));
+  const { models, findModel } = useModels();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the stored settings every time the popover opens
+  useEffect(() => {
+    if (open) setDraft(settingsOf(conversation));
+  }, [open]);
+
+  const saveSettings = useMutation({
+    mutationFn: async (settings: Settings) => {
+      return await chatApi.updateConversationSettings(conversation.id, settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversation.id] });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = <K extends keyof Settings>(key: K, value: Required<Settings>[K]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+        >
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Settings
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-80 space-y-4 bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]"
+      >
+        <div className="space-y-2">
+          <Label>Model</Label>
+          <Select value={findModel(draft.model)?.id ?? draft.model} onValueChange={(model) => update("model", model)}>
+            <SelectTrigger className="bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))]">
+              {models.map(model => (
+                <SelectItem key={model.id} value={model.id} className="text-[hsl(var(--office-text))] focus:bg-[hsl(var(--office-dark))]">
+                  {model.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Temperature</Label>
+            <span className="text-xs text-[hsl(var(--office-text-secondary))]">{draft.temperature.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={2}
+            step={0.1}
+            value={[draft.temperature]}
+            onValueChange={([value]) => update("temperature", value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Top P</Label>
+            <span className="text-xs text-[hsl(var(--office-text-secondary))]">{draft.topP.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[draft.topP]}
+            onValueChange={([value]) => update("topP", value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="max-output-tokens">Max output tokens</Label>
+          <Input
+            id="max-output-tokens"
+            type="number"
+            min={1}
+            max={32000}
+            value={draft.maxOutputTokens}
+            onChange={(e) => update("maxOutputTokens", parseInt(e.target.value) || 1)}
+            className="bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]"
+          />
+        </div>
+
+        <Button
+          onClick={() => saveSettings.mutate(draft)}
+          disabled={saveSettings.isPending}
+          className="w-full bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white"
+        >
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,50 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { Conversation } from "@shared/schema";
+
+interface ExportMenuProps {
+  conversation: Conversation;
+}
+
+const FORMATS = [
+  { format: "md", label: "Markdown (.md)" },
+  { format: "docx", label: "Word document (.docx)" },
+  { format: "pdf", label: "PDF (.pdf)" },
+  { format: "json", label: "JSON with metadata (.json)" },
+];
+
+// Downloads the branch being shown; the server builds every format
+export default function ExportMenu({ conversation }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]"
+      >
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={`/api/conversations/${conversation.id}/export?format=${format}`} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
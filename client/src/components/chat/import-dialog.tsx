@@ -0,0 +1,150 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { chatApi } from "@/lib/chat-api";
+import { FileUp, Loader2, MessageSquare, Upload } from "lucide-react";
+import type { ImportReport } from "@shared/schema";
+
+interface ImportDialogProps {
+  onConversationSelect: (id: number) => void;
+}
+
+// Matches the file types the server can read
+const ACCEPTED_FILES = ".json,.md,.markdown,.txt";
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// Brings in conversations from ChatGPT or a transcript file. Importing the
+// same file again only adds what is new.
+export default function ImportDialog({ onConversationSelect }: ImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const importFile = useMutation({
+    mutationFn: async (file: File) => {
+      return await chatApi.importConversations(file);
+    },
+    onSuccess: (result: ImportReport) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+      setReport(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import conversations",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be picked again
+    e.target.value = "";
+    if (file) {
+      setReport(null);
+      importFile.mutate(file);
+    }
+  };
+
+  const openConversation = (id: number) => {
+    setOpen(false);
+    onConversationSelect(id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setReport(null); }}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full mt-2 text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+        >
+          <FileUp className="w-4 h-4 mr-2" />
+          Import chats
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]">
+        <DialogHeader>
+          <DialogTitle>Import conversations</DialogTitle>
+          <DialogDescription className="text-[hsl(var(--office-text-secondary))]">
+            Upload conversations.json from a ChatGPT data export, a JSON export from here, or a Markdown transcript with "## You" and "## Assistant" headings. Conversations you imported before are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILES}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importFile.isPending}
+          className="self-start bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white"
+        >
+          {importFile.isPending
+            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            : <Upload className="w-4 h-4 mr-2" />}
+          {importFile.isPending ? "Importing..." : "Choose file"}
+        </Button>
+
+        {report && (
+          <div className="max-h-80 overflow-y-auto office-scrollbar space-y-4 text-sm">
+            <p>
+              Imported {plural(report.imported.length, "conversation")}
+              {report.skipped.length > 0 && `, skipped ${report.skipped.length}`}.
+            </p>
+            {report.imported.length > 0 && (
+              <div className="space-y-1">
+                {report.imported.map(item => (
+                  <button
+                    key={item.conversationId}
+                    onClick={() => openConversation(item.conversationId)}
+                    className="w-full flex items-center space-x-2 rounded-lg px-2 py-1.5 text-left hover:bg-[hsl(var(--office-dark))]"
+                  >
+                    <MessageSquare className="w-4 h-4 flex-shrink-0 text-[hsl(var(--office-accent))]" />
+                    <span className="truncate flex-1">{item.title}</span>
+                    <span className="flex-shrink-0 text-xs text-[hsl(var(--office-text-secondary))]">
+                      {plural(item.messageCount, "message")}
+                      {item.skippedMessages > 0 && ` · ${item.skippedMessages} left out`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {report.skipped.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-[hsl(var(--office-text-secondary))]">Skipped</p>
+                {report.skipped.map((item, i) => (
+                  <div key={i} className="flex items-center space-x-2 px-2 text-xs">
+                    <span className="truncate flex-1">{item.title}</span>
+                    <span className="flex-shrink-0 text-[hsl(var(--office-text-secondary))]">{item.reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {report.imported.some(item => item.skippedMessages > 0) && (
+              <p className="text-xs text-[hsl(var(--office-text-secondary))]">
+                Messages left out cannot be shown here, e.g. ChatGPT's tool calls, code runs and images without text.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { INVESTMENT_STRATEGIES, type InvestmentResult, type InvestmentStrategy } from "@shared/investments";
+
+const chartConfig = {
+  corporate: { label: INVESTMENT_STRATEGIES.corporate, color: "hsl(var(--office-accent))" },
+  personal: { label: INVESTMENT_STRATEGIES.personal, color: "hsl(217 91% 60%)" },
+  rrsp: { label: INVESTMENT_STRATEGIES.rrsp, color: "hsl(38 92% 50%)" },
+} satisfies ChartConfig;
+
+const currency = (value: number) =>
+  value.toLocaleString("en-CA", { style: "currency", currency: "CAD", maximumFractionDigits: 0 });
+
+const compactCurrency = (value: number) =>
+  value.toLocaleString("en-CA", { style: "currency", currency: "CAD", notation: "compact", maximumFractionDigits: 1 });
+
+// After-tax value of each strategy by year, from a compare_investments result
+export default function InvestmentChart({ result }: { result: InvestmentResult }) {
+  const [real, setReal] = useState(false);
+  const strategies = Object.keys(chartConfig) as InvestmentStrategy[];
+  const data = result.projection.map(row => ({
+    year: row.year,
+    corporate: real ? row.corporateReal : row.corporate,
+    personal: real ? row.personalReal : row.personal,
+    rrsp: real ? row.rrspReal : row.rrsp,
+  }));
+
+  return (
+    <div className="mt-2 rounded-lg border border-[hsl(var(--office-border))] bg-[hsl(var(--office-sidebar))] p-3 text-xs">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[hsl(var(--office-text-secondary))]">
+          After-tax value if cashed out, {result.annualReturn}% return, {result.province} {result.year}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => setReal(value => !value)}
+        >
+          {real ? "Today's dollars" : "Future dollars"}
+        </Button>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <LineChart data={data} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="year" tickLine={false} axisLine={false} tickFormatter={year => `Yr ${year}`} />
+          <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={compactCurrency} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => `Year ${payload[0]?.payload.year}`} formatter={(value, name) => (
+              <span>{chartConfig[name as InvestmentStrategy].label}: {currency(Number(value))}</span>
+            )} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {strategies.map(strategy => (
+            <Line
+              key={strategy}
+              dataKey={strategy}
+              type="monotone"
+              stroke={`var(--color-${strategy})`}
+              strokeWidth={2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
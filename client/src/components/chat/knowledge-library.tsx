@@ -0,0 +1,151 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { chatApi } from "@/lib/chat-api";
+import { BookOpen, FileText, Loader2, Trash2, Upload } from "lucide-react";
+import type { KnowledgeDocument } from "@shared/schema";
+
+// Matches the file types the server can read
+const ACCEPTED_FILES = ".pdf,.docx,.xlsx,.csv,.txt,.md";
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString([], { dateStyle: "medium" });
+
+// The team's shared documents. Replies cite the passages they were given
+// from these.
+export default function KnowledgeLibrary() {
+  const [open, setOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: documents = [], isLoading } = useQuery<KnowledgeDocument[]>({
+    queryKey: ['/api/knowledge'],
+    enabled: open,
+  });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const uploadDocument = useMutation({
+    mutationFn: async (file: File) => {
+      return await chatApi.uploadKnowledgeDocument(file);
+    },
+    onSuccess: (document: KnowledgeDocument) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/knowledge'] });
+      toast({
+        title: "Document added",
+        description: `${document.title} was split into ${document.chunkCount} ${document.chunkCount === 1 ? "passage" : "passages"}.`,
+      });
+    },
+    onError: showError("Failed to upload document"),
+  });
+
+  const deleteDocument = useMutation({
+    mutationFn: async (id: number) => {
+      return await chatApi.deleteKnowledgeDocument(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/knowledge'] });
+    },
+    onError: showError("Failed to remove document"),
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so the same file can be picked again
+    e.target.value = "";
+    if (file) uploadDocument.mutate(file);
+  };
+
+  let body;
+  if (isLoading) {
+    body = <Loader2 className="w-4 h-4 animate-spin text-[hsl(var(--office-text-secondary))]" />;
+  } else if (documents.length === 0) {
+    body = (
+      <p className="text-sm text-[hsl(var(--office-text-secondary))]">
+        No documents yet. Upload policies, price lists or procedures and the assistant will answer from them.
+      </p>
+    );
+  } else {
+    body = (
+      <div className="space-y-1">
+        {documents.map(document => (
+          <div
+            key={document.id}
+            className="flex items-center space-x-3 rounded-lg px-2 py-2 text-sm hover:bg-[hsl(var(--office-dark))]"
+          >
+            <FileText className="w-4 h-4 flex-shrink-0 text-[hsl(var(--office-accent))]" />
+            <div className="flex-1 min-w-0">
+              <div className="truncate font-medium">{document.title}</div>
+              <div className="truncate text-xs text-[hsl(var(--office-text-secondary))]">
+                {document.filename} · {document.chunkCount} {document.chunkCount === 1 ? "passage" : "passages"} · {formatDate(document.createdAt)}
+              </div>
+            </div>
+            {document.userId === user?.id && (
+              <button
+                onClick={() => deleteDocument.mutate(document.id)}
+                disabled={deleteDocument.isPending}
+                title="Remove from the knowledge base"
+                className="text-[hsl(var(--office-text-secondary))] hover:text-red-400 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+        >
+          <BookOpen className="w-4 h-4 mr-2" />
+          Knowledge
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto office-scrollbar bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]">
+        <SheetHeader className="mb-4">
+          <SheetTitle className="text-[hsl(var(--office-text))]">Knowledge base</SheetTitle>
+          <SheetDescription className="text-[hsl(var(--office-text-secondary))]">
+            Shared with the whole team. Replies cite the passages they use.
+          </SheetDescription>
+        </SheetHeader>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILES}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadDocument.isPending}
+          className="mb-4 bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white"
+        >
+          {uploadDocument.isPending
+            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            : <Upload className="w-4 h-4 mr-2" />}
+          {uploadDocument.isPending ? "Indexing..." : "Upload document"}
+        </Button>
+        {body}
+      </SheetContent>
+    </Sheet>
+  );
+}
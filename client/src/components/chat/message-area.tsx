@@ -1,18 +1,221 @@
 import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { ArrowDown } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, Calculator, ChevronLeft, ChevronRight, FileText, Loader2, Pencil, Pin, RefreshCw } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useModels } from "@/hooks/use-models";
+import { chatApi } from "@/lib/chat-api";
 import WelcomeScreen from "./welcome-screen";
-import type { ConversationWithMessages } from "@shared/schema";
+import MessageDetails from "./message-details";
+import ToolCallCard from "./tool-call-card";
+import { SourceCitation, withCitations } from "./source-citation";
+import { calculationLabel } from "@shared/calculators";
+import type { Calculation, ConversationWithMessages, Message, MessageSource } from "@shared/schema";
 
 interface MessageAreaProps {
   conversation?: ConversationWithMessages;
   isLoading: boolean;
+  // Text of the assistant reply currently being streamed, or null when idle
+  streamingReply?: string | null;
+  // Model used when regenerating a reply or answering an edited prompt
+  selectedModel: string;
+  // Opens a saved calculator run in the history panel
+  onOpenCalculation: (id: number) => void;
+  // Message to scroll to and flash, e.g. a search hit; it may be on another branch
+  focusMessageId?: number | null;
+  onFocusHandled?: () => void;
   onSuggestedPrompt: (prompt: string) => void;
 }
 
-export default function MessageArea({ conversation, isLoading, onSuggestedPrompt }: MessageAreaProps) {
+// Lightweight markdown-ish rendering for assistant replies. Citations of
+// knowledge base sources become links to the passage.
+function renderContent(content: string, sources: MessageSource[] = []) {
+  return content.split('\n').map((paragraph, pIndex) => {
+    if (paragraph.trim() === '') return <br key={pIndex} />;
+
+    // Handle headers
+    if (paragraph.startsWith('### ')) {
+      return <h3 key={pIndex} className="text-lg font-semibold mt-4 mb-2">{withCitations(paragraph.replace('### ', ''), sources)}</h3>;
+    }
+    if (paragraph.startsWith('## ')) {
+      return <h2 key={pIndex} className="text-xl font-semibold mt-4 mb-2">{withCitations(paragraph.replace('## ', ''), sources)}</h2>;
+    }
+    if (paragraph.startsWith('# ')) {
+      return <h1 key={pIndex} className="text-2xl font-bold mt-4 mb-2">{withCitations(paragraph.replace('# ', ''), sources)}</h1>;
+    }
+
+    // Handle lists
+    if (paragraph.trim().startsWith('- ') || paragraph.trim().startsWith('* ')) {
+      return <li key={pIndex} className="ml-4">{withCitations(paragraph.replace(/^[-*]\s/, ''), sources)}</li>;
+    }
+
+    // Regular paragraphs
+    return <p key={pIndex} className="mb-2 leading-relaxed">{withCitations(paragraph, sources)}</p>;
+  });
+}
+
+export default function MessageArea({
+  conversation,
+  isLoading,
+  streamingReply = null,
+  selectedModel,
+  onOpenCalculation,
+  focusMessageId = null,
+  onFocusHandled,
+  onSuggestedPrompt,
+}: MessageAreaProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { modelLabel } = useModels();
+  // User message being edited in place, with the draft text
+  const [editing, setEditing] = useState<{ id: number; content: string } | null>(null);
+  // Briefly outlined after jumping to it
+  const [flashedId, setFlashedId] = useState<number | null>(null);
+
+  const refreshConversation = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversation?.id] });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Each of these leaves the conversation showing the new or chosen branch
+  const regenerate = useMutation({
+    mutationFn: async (message: Message) => {
+      return await chatApi.regenerateMessage(message.id, selectedModel);
+    },
+    onSuccess: refreshConversation,
+    onError: showError("Failed to regenerate reply"),
+  });
+
+  const editMessage = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      return await chatApi.editMessage(id, content, selectedModel);
+    },
+    onSuccess: () => {
+      setEditing(null);
+      refreshConversation();
+    },
+    onError: showError("Failed to edit message"),
+  });
+
+  const switchBranch = useMutation({
+    mutationFn: async (messageId: number) => {
+      return await chatApi.switchBranch(conversation!.id, messageId);
+    },
+    onSuccess: refreshConversation,
+    onError: showError("Failed to switch branch"),
+  });
+
+  // Calculator runs behind the tool calls in this conversation
+  const hasToolMessages = conversation?.messages.some(message => message.role === 'tool') ?? false;
+  const { data: calculations = [] } = useQuery<Calculation[]>({
+    queryKey: ['/api/calculations'],
+    enabled: hasToolMessages,
+  });
+
+  // Runs from the tool calls made just before an assistant reply
+  const calculationsFor = (message: Message) => {
+    const messages = conversation?.messages ?? [];
+    const callIds: string[] = [];
+    for (let i = messages.indexOf(message) - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+      if (messages[i].toolCall) callIds.push(messages[i].toolCall!.id);
+    }
+    return calculations.filter(calculation =>
+      calculation.conversationId === conversation?.id && calculation.toolCallId && callIds.includes(calculation.toolCallId)
+    );
+  };
+
+  const formatSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+  // Files sent with a prompt, as download links
+  const attachmentChips = (message: Message) => {
+    const attached = (message.attachmentIds ?? [])
+      .map(id => conversation?.attachments[id])
+      .filter(attachment => attachment !== undefined);
+    if (attached.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap justify-end gap-2 mb-2">
+        {attached.map(attachment => (
+          <a
+            key={attachment.id}
+            href={`/api/attachments/${attachment.id}/download`}
+            title={attachment.truncated ? "Only the start of this file was sent to the model" : "Download"}
+            className="flex items-center space-x-2 rounded-lg border border-[hsl(var(--office-border))] bg-[hsl(var(--office-sidebar))] px-3 py-2 text-xs text-[hsl(var(--office-text))] hover:border-[hsl(var(--office-accent))]"
+          >
+            <FileText className="w-4 h-4 text-[hsl(var(--office-accent))]" />
+            <span className="max-w-[200px] truncate">{attachment.filename}</span>
+            <span className="text-[hsl(var(--office-text-secondary))]">{formatSize(attachment.size)}</span>
+          </a>
+        ))}
+      </div>
+    );
+  };
+
+  const isBusy = regenerate.isPending || editMessage.isPending || streamingReply !== null;
+
+  // "2/3" pager for messages that have edited or regenerated siblings
+  const branchPager = (message: Message) => {
+    const branch = conversation?.branches[message.id];
+    if (!branch) return null;
+
+    return (
+      <span className="flex items-center space-x-1">
+        <button
+          onClick={() => switchBranch.mutate(branch.siblingIds[branch.index - 1])}
+          disabled={branch.index === 0 || isBusy || switchBranch.isPending}
+          className="hover:text-[hsl(var(--office-text))] disabled:opacity-30"
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        <span>{branch.index + 1}/{branch.siblingIds.length}</span>
+        <button
+          onClick={() => switchBranch.mutate(branch.siblingIds[branch.index + 1])}
+          disabled={branch.index === branch.siblingIds.length - 1 || isBusy || switchBranch.isPending}
+          className="hover:text-[hsl(var(--office-text))] disabled:opacity-30"
+        >
+          <ChevronRight className="w-3 h-3" />
+        </button>
+      </span>
+    );
+  };
+
+  // Pinned messages are always included in the context sent to the model
+  const togglePinned = useMutation({
+    mutationFn: async (message: Message) => {
+      return await chatApi.setMessagePinned(message.id, !message.pinned);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversation?.id] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pinButton = (message: Message) => (
+    <button
+      onClick={() => togglePinned.mutate(message)}
+      title={message.pinned ? "Unpin from context" : "Always keep in context"}
+      className={`transition-colors ${message.pinned ? 'text-[hsl(var(--office-accent))]' : 'hover:text-[hsl(var(--office-text))]'}`}
+    >
+      <Pin className="w-3 h-3" />
+    </button>
+  );
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -21,6 +224,36 @@ export default function MessageArea({ conversation, isLoading, onSuggestedPrompt
     }
   }, [conversation?.messages?.length]);
 
+  // Jump to the focused message once the conversation has loaded, switching
+  // to its branch first if it is not on the one shown
+  useEffect(() => {
+    if (focusMessageId === null || !conversation || switchBranch.isPending) return;
+
+    if (conversation.messages.some(message => message.id === focusMessageId)) {
+      document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ block: "center" });
+      setFlashedId(focusMessageId);
+      onFocusHandled?.();
+    } else if (switchBranch.variables === focusMessageId) {
+      // Already switched and it is still not there
+      onFocusHandled?.();
+    } else {
+      switchBranch.mutate(focusMessageId, { onError: () => onFocusHandled?.() });
+    }
+  }, [focusMessageId, conversation]);
+
+  useEffect(() => {
+    if (flashedId === null) return;
+    const timer = setTimeout(() => setFlashedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [flashedId]);
+
+  // Follow a streaming reply, unless the user has scrolled up to read
+  useEffect(() => {
+    if (scrollRef.current && streamingReply !== null && !showScrollButton) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [streamingReply, showScrollButton]);
+
   // Handle scroll to detect if user scrolled up
   const handleScroll = () => {
     if (scrollRef.current) {
@@ -41,7 +274,7 @@ export default function MessageArea({ conversation, isLoading, onSuggestedPrompt
     }
   };
 
-  if (!conversation || conversation.messages.length === 0) {
+  if ((!conversation || conversation.messages.length === 0) && streamingReply === null) {
     return <WelcomeScreen onSuggestedPrompt={onSuggestedPrompt} />;
   }
 
@@ -53,76 +286,163 @@ export default function MessageArea({ conversation, isLoading, onSuggestedPrompt
         className="h-full overflow-y-auto office-scrollbar"
       >
         <div className="max-w-4xl mx-auto px-6 py-6 space-y-6">
-          {conversation.messages.map((message, index) => (
-            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} message-animation`}>
-              <div className="max-w-3xl">
-                {message.role === 'user' ? (
-                  // User Message
-                  <>
-                    <div className="bg-[hsl(var(--office-accent))] text-white rounded-2xl rounded-br-md px-6 py-4">
-                      <div className="whitespace-pre-wrap">{message.content}</div>
-                    </div>
-                    <div className="flex items-center justify-end space-x-2 mt-2 text-xs text-[hsl(var(--office-text-secondary))]">
-                      <span>{new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                      <svg className="w-3 h-3 text-[hsl(var(--office-accent))]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                    </div>
-                  </>
-                ) : (
-                  // AI Response
-                  <>
-                    <div className="flex items-start space-x-3">
-                      <div className="w-8 h-8 bg-[hsl(var(--office-accent))] rounded-lg flex items-center justify-center flex-shrink-0 mt-1">
-                        <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+          {conversation?.messages.map((message) => {
+            const isRegenerating = regenerate.isPending && regenerate.variables?.id === message.id;
+
+            return (
+              <div key={message.id} id={`message-${message.id}`} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} message-animation`}>
+                <div className={`max-w-3xl rounded-2xl transition-shadow ${flashedId === message.id ? 'ring-2 ring-[hsl(var(--office-accent))] ring-offset-4 ring-offset-[hsl(var(--office-dark))]' : ''}`}>
+                  {message.role === 'user' ? (
+                    // User Message
+                    <>
+                      {attachmentChips(message)}
+                      {editing?.id === message.id ? (
+                        <div className="space-y-2 min-w-[320px]">
+                          <Textarea
+                            value={editing.content}
+                            onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                            className="min-h-[80px] bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]"
+                            autoFocus
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditing(null)}
+                              disabled={editMessage.isPending}
+                              className="text-[hsl(var(--office-text-secondary))]"
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => editMessage.mutate(editing)}
+                              disabled={!editing.content.trim() || editing.content === message.content || editMessage.isPending}
+                              className="bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white"
+                            >
+                              {editMessage.isPending && <Loader2 className="w-3 h-3 mr-2 animate-spin" />}
+                              Save & submit
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="bg-[hsl(var(--office-accent))] text-white rounded-2xl rounded-br-md px-6 py-4">
+                          <div className="whitespace-pre-wrap">{message.content}</div>
+                        </div>
+                      )}
+                      <div className="flex items-center justify-end space-x-2 mt-2 text-xs text-[hsl(var(--office-text-secondary))]">
+                        {branchPager(message)}
+                        <button
+                          onClick={() => setEditing({ id: message.id, content: message.content })}
+                          disabled={isBusy}
+                          title="Edit and branch from here"
+                          className="hover:text-[hsl(var(--office-text))] transition-colors disabled:opacity-50"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                        {pinButton(message)}
+                        <span>{new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                        <svg className="w-3 h-3 text-[hsl(var(--office-accent))]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                         </svg>
                       </div>
-                      <div className="bg-[hsl(var(--office-sidebar))] border border-[hsl(var(--office-border))] rounded-2xl rounded-bl-md px-6 py-4 flex-1">
-                        <div className="prose-office">
-                          {message.content.split('\n').map((paragraph, pIndex) => {
-                            if (paragraph.trim() === '') return <br key={pIndex} />;
-                            
-                            // Handle headers
-                            if (paragraph.startsWith('### ')) {
-                              return <h3 key={pIndex} className="text-lg font-semibold mt-4 mb-2">{paragraph.replace('### ', '')}</h3>;
-                            }
-                            if (paragraph.startsWith('## ')) {
-                              return <h2 key={pIndex} className="text-xl font-semibold mt-4 mb-2">{paragraph.replace('## ', '')}</h2>;
-                            }
-                            if (paragraph.startsWith('# ')) {
-                              return <h1 key={pIndex} className="text-2xl font-bold mt-4 mb-2">{paragraph.replace('# ', '')}</h1>;
-                            }
-                            
-                            // Handle lists
-                            if (paragraph.trim().startsWith('- ') || paragraph.trim().startsWith('* ')) {
-                              return <li key={pIndex} className="ml-4">{paragraph.replace(/^[-*]\s/, '')}</li>;
-                            }
-                            
-                            // Regular paragraphs
-                            return <p key={pIndex} className="mb-2 leading-relaxed">{paragraph}</p>;
-                          })}
+                    </>
+                  ) : message.role === 'tool' ? (
+                    <ToolCallCard message={message} actions={branchPager(message)} />
+                  ) : (
+                    // AI Response
+                    <>
+                      <div className="flex items-start space-x-3">
+                        <div className="w-8 h-8 bg-[hsl(var(--office-accent))] rounded-lg flex items-center justify-center flex-shrink-0 mt-1">
+                          <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                          </svg>
+                        </div>
+                        <div className="bg-[hsl(var(--office-sidebar))] border border-[hsl(var(--office-border))] rounded-2xl rounded-bl-md px-6 py-4 flex-1">
+                          <div className="prose-office">
+                            {renderContent(message.content, message.sources ?? undefined)}
+                          </div>
+                          {message.sources && message.sources.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-[hsl(var(--office-border))] flex flex-wrap gap-2 text-xs">
+                              <span className="text-[hsl(var(--office-text-secondary))]">Sources:</span>
+                              {message.sources.map(source => (
+                                <SourceCitation key={source.number} source={source}>
+                                  <button className="text-[hsl(var(--office-accent))] hover:underline">
+                                    [{source.number}] {source.title}
+                                  </button>
+                                </SourceCitation>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
+                      <div className="flex items-center justify-start space-x-2 mt-2 ml-11 text-xs text-[hsl(var(--office-text-secondary))]">
+                        {message.status && (
+                          <span className="px-1.5 py-0.5 rounded border border-[hsl(var(--office-border))]">
+                            {message.status === "stopped" ? "Stopped" : "Incomplete"}
+                          </span>
+                        )}
+                        <span>{modelLabel(message.model)}</span>
+                        <span className="w-1 h-1 bg-[hsl(var(--office-text-secondary))] rounded-full"></span>
+                        <span>{new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                        <button 
+                          onClick={() => navigator.clipboard.writeText(message.content)}
+                          className="hover:text-[hsl(var(--office-text))] transition-colors ml-2"
+                        >
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                          </svg>
+                        </button>
+                        {pinButton(message)}
+                        <MessageDetails message={message} />
+                        {calculationsFor(message).map(calculation => (
+                          <button
+                            key={calculation.id}
+                            onClick={() => onOpenCalculation(calculation.id)}
+                            title="Open this calculation in the history"
+                            className="flex items-center space-x-1 hover:text-[hsl(var(--office-text))] transition-colors"
+                          >
+                            <Calculator className="w-3 h-3" />
+                            <span>{calculationLabel(calculation.type)}</span>
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => regenerate.mutate(message)}
+                          disabled={isBusy}
+                          title={`Regenerate with ${modelLabel(selectedModel)}`}
+                          className="hover:text-[hsl(var(--office-text))] transition-colors disabled:opacity-50"
+                        >
+                          <RefreshCw className={`w-3 h-3 ${isRegenerating ? 'animate-spin' : ''}`} />
+                        </button>
+                        {branchPager(message)}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {streamingReply !== null && (
+            <div className="flex justify-start message-animation">
+              <div className="max-w-3xl">
+                <div className="flex items-start space-x-3">
+                  <div className="w-8 h-8 bg-[hsl(var(--office-accent))] rounded-lg flex items-center justify-center flex-shrink-0 mt-1">
+                    <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                  <div className="bg-[hsl(var(--office-sidebar))] border border-[hsl(var(--office-border))] rounded-2xl rounded-bl-md px-6 py-4 flex-1">
+                    <div className="prose-office">
+                      {streamingReply ? renderContent(streamingReply) : (
+                        <Loader2 className="w-4 h-4 animate-spin text-[hsl(var(--office-text-secondary))]" />
+                      )}
                     </div>
-                    <div className="flex items-center justify-start space-x-2 mt-2 ml-11 text-xs text-[hsl(var(--office-text-secondary))]">
-                      <span>{message.model}</span>
-                      <span className="w-1 h-1 bg-[hsl(var(--office-text-secondary))] rounded-full"></span>
-                      <span>{new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                      <button 
-                        onClick={() => navigator.clipboard.writeText(message.content)}
-                        className="hover:text-[hsl(var(--office-text))] transition-colors ml-2"
-                      >
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                        </svg>
-                      </button>
-                    </div>
-                  </>
-                )}
+                  </div>
+                </div>
               </div>
             </div>
-          ))}
+          )}
         </div>
       </div>
       
@@ -0,0 +1,53 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useModels } from "@/hooks/use-models";
+import { Info } from "lucide-react";
+import type { Message } from "@shared/schema";
+
+interface MessageDetailsProps {
+  message: Message;
+}
+
+// Generation metadata of an assistant reply: model, tokens, latency...
+export default function MessageDetails({ message }: MessageDetailsProps) {
+  const { modelLabel } = useModels();
+
+  const totalTokens = message.promptTokens != null && message.completionTokens != null
+    ? message.promptTokens + message.completionTokens
+    : null;
+
+  const rows: Array<[string, string | null]> = [
+    ["Model", message.model ? `${modelLabel(message.model)} (${message.model})` : null],
+    ["Prompt tokens", message.promptTokens?.toLocaleString() ?? null],
+    ["Completion tokens", message.completionTokens?.toLocaleString() ?? null],
+    ["Total tokens", totalTokens?.toLocaleString() ?? null],
+    ["Latency", message.latencyMs != null ? `${(message.latencyMs / 1000).toFixed(2)}s` : null],
+    ["Finish reason", message.finishReason],
+    ["Request id", message.providerRequestId],
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          title="Generation details"
+          className="hover:text-[hsl(var(--office-text))] transition-colors"
+        >
+          <Info className="w-3 h-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-72 bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))] text-xs"
+      >
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-[hsl(var(--office-text-secondary))]">{label}</dt>
+              <dd className="truncate" title={value ?? undefined}>{value ?? "—"}</dd>
+            </div>
+          ))}
+        </dl>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,33 +1,53 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { chatApi } from "@/lib/chat-api";
-import { Loader2, Send } from "lucide-react";
+import { FileText, Loader2, Paperclip, Send, Square, X } from "lucide-react";
+import type { AttachmentInfo, ContextReport, ConversationWithMessages } from "@shared/schema";
+
+// Matches the file types the server can read
+const ACCEPTED_FILES = ".pdf,.docx,.xlsx,.csv,.txt,.md";
 
 interface MessageInputProps {
   conversationId: number | null;
   selectedModel: string;
   onConversationCreated: (id: number) => void;
+  onStreamingReplyChange: (reply: string | null) => void;
 }
 
-export default function MessageInput({ conversationId, selectedModel, onConversationCreated }: MessageInputProps) {
+export default function MessageInput({ conversationId, selectedModel, onConversationCreated, onStreamingReplyChange }: MessageInputProps) {
   const [message, setMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [contextReport, setContextReport] = useState<ContextReport | null>(null);
+  // Files uploaded for the next message, and how many are still uploading
+  const [attachments, setAttachments] = useState<AttachmentInfo[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // The conversation whose reply is streaming, for the Stop button, and the
+  // controller that closes its stream when the server cannot stop it
+  const streamingConversationRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Mock user ID - in a real app this would come from authentication
-  const userId = 1;
+  // The report describes the last request, so it does not carry over between chats
+  useEffect(() => {
+    setContextReport(null);
+  }, [conversationId]);
+
+  const { user } = useAuth();
 
   const createConversation = useMutation({
     mutationFn: async (title: string) => {
+      // The server assigns the conversation to the signed-in user
       return await chatApi.createConversation({
-        userId,
+        userId: user!.id,
         title,
+        model: selectedModel,
       });
     },
     onSuccess: (data) => {
@@ -43,30 +63,81 @@ export default function MessageInput({ conversationId, selectedModel, onConversa
     },
   });
 
+  const uploadFiles = async (files: File[]) => {
+    setUploadingCount(count => count + files.length);
+    await Promise.all(files.map(async (file) => {
+      try {
+        const attachment = await chatApi.uploadAttachment(file);
+        setAttachments(current => [...current, attachment]);
+      } catch (error: any) {
+        toast({
+          title: `Could not attach ${file.name}`,
+          description: error.message || "Failed to upload file",
+          variant: "destructive",
+        });
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Clear the input so the same file can be picked again
+    e.target.value = "";
+    if (files.length > 0) uploadFiles(files);
+  };
+
   const sendMessage = useMutation({
-    mutationFn: async ({ conversationId, content, model }: { conversationId: number; content: string; model: string }) => {
+    mutationFn: async ({ conversationId, content, model, attachmentIds }: { conversationId: number; content: string; model: string; attachmentIds: number[] }) => {
       setIsLoading(true);
-      const response = await apiRequest("POST", "/api/analyze-query", {
-        conversationId,
-        content,
-        model,
-      });
-      return await response.json();
+      let reply = "";
+      onStreamingReplyChange("");
+      streamingConversationRef.current = conversationId;
+      abortRef.current = new AbortController();
+      return await chatApi.streamMessage(conversationId, content, model, {
+        signal: abortRef.current.signal,
+        onUserMessage: (userMessage) => {
+          setMessage("");
+          setAttachments([]);
+          if (textareaRef.current) {
+            textareaRef.current.style.height = 'auto';
+          }
+          // Show the prompt right away instead of waiting for the whole reply
+          queryClient.setQueryData<ConversationWithMessages>(
+            ['/api/conversations/detail', conversationId],
+            (old) => old && { ...old, messages: [...old.messages, userMessage] },
+          );
+        },
+        onContext: setContextReport,
+        // Show the tool card; any text written before the call is discarded
+        onToolMessage: () => {
+          reply = "";
+          onStreamingReplyChange("");
+          queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversationId] });
+          // Calculator tools save their runs to the history
+          queryClient.invalidateQueries({ queryKey: ['/api/calculations'] });
+        },
+        onDelta: (text) => {
+          reply += text;
+          onStreamingReplyChange(reply);
+        },
+      }, attachmentIds);
     },
-    onSuccess: () => {
-      setMessage("");
+    // The stream ends after the server's final event, so the reply,
+    // finished or stopped, is saved by now. After a fallback abort the server
+    // saves the partial reply on its own; it shows on the next refresh.
+    onSettled: (_data, _error, { conversationId }) => {
+      streamingConversationRef.current = null;
+      abortRef.current = null;
       setIsLoading(false);
-      if (textareaRef.current) {
-        textareaRef.current.style.height = 'auto';
-      }
+      onStreamingReplyChange(null);
       // Invalidate conversations and current conversation
       queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
-      if (conversationId) {
-        queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversationId] });
-      }
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversationId] });
     },
     onError: (error: any) => {
-      setIsLoading(false);
+      if (error.name === "AbortError") return;
       toast({
         title: "Error",
         description: error.message || "Failed to send message",
@@ -75,15 +146,33 @@ export default function MessageInput({ conversationId, selectedModel, onConversa
     },
   });
 
+  // The server stops the model and the stream ends with the saved partial
+  // reply. When the server is not streaming it (another server process, or
+  // the request has not arrived yet), close the stream instead.
+  const stopReply = async () => {
+    const id = streamingConversationRef.current;
+    if (id === null) return;
+    let stopped = false;
+    try {
+      ({ stopped } = await chatApi.stopReply(id));
+    } catch (error) {
+      console.error("Failed to stop the reply:", error);
+    }
+    if (!stopped) abortRef.current?.abort();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim() || isLoading) return;
+    // The model stays empty until the catalog has loaded
+    if (!message.trim() || isLoading || uploadingCount > 0 || !selectedModel) return;
 
     try {
-      let currentConversationId = conversationId;
+      let currentConversationId: number;
 
       // Create new conversation if none exists
-      if (!currentConversationId) {
+      if (conversationId) {
+        currentConversationId = conversationId;
+      } else {
         const title = message.length > 50 ? message.substring(0, 50) + "..." : message;
         const newConversation = await createConversation.mutateAsync(title);
         currentConversationId = newConversation.id;
@@ -94,6 +183,7 @@ export default function MessageInput({ conversationId, selectedModel, onConversa
         conversationId: currentConversationId,
         content: message,
         model: selectedModel,
+        attachmentIds: attachments.map(attachment => attachment.id),
       });
     } catch (error) {
       // Error handled by mutation
@@ -120,6 +210,35 @@ export default function MessageInput({ conversationId, selectedModel, onConversa
     <div className="bg-[hsl(var(--office-sidebar))] border-t border-[hsl(var(--office-border))] p-6">
       <div className="max-w-4xl mx-auto">
         <form onSubmit={handleSubmit} className="space-y-4">
+          {(attachments.length > 0 || uploadingCount > 0) && (
+            <div className="flex flex-wrap gap-2">
+              {attachments.map(attachment => (
+                <span
+                  key={attachment.id}
+                  title={attachment.truncated ? "Only the start of this file fits in the prompt" : undefined}
+                  className="flex items-center space-x-1 rounded-lg border border-[hsl(var(--office-border))] bg-[hsl(var(--office-dark))] px-2 py-1 text-xs text-[hsl(var(--office-text))]"
+                >
+                  <FileText className="w-3 h-3 text-[hsl(var(--office-text-secondary))]" />
+                  <span className="max-w-[200px] truncate">{attachment.filename}</span>
+                  <button
+                    type="button"
+                    onClick={() => setAttachments(current => current.filter(other => other.id !== attachment.id))}
+                    disabled={isLoading}
+                    title="Remove"
+                    className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {uploadingCount > 0 && (
+                <span className="flex items-center space-x-1 px-2 py-1 text-xs text-[hsl(var(--office-text-secondary))]">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  <span>Reading {uploadingCount === 1 ? "file" : `${uploadingCount} files`}...</span>
+                </span>
+              )}
+            </div>
+          )}
           <div className="relative">
             <Textarea
               ref={textareaRef}
@@ -127,27 +246,59 @@ export default function MessageInput({ conversationId, selectedModel, onConversa
               onChange={handleTextareaChange}
               onKeyDown={handleKeyPress}
               placeholder="Type your message here..."
-              className="min-h-[60px] max-h-[200px] resize-none bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))] placeholder:text-[hsl(var(--office-text-secondary))] focus:border-[hsl(var(--office-accent))] pr-12"
+              className="min-h-[60px] max-h-[200px] resize-none bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))] placeholder:text-[hsl(var(--office-text-secondary))] focus:border-[hsl(var(--office-accent))] pr-24"
               disabled={isLoading}
             />
-            <div className="absolute bottom-3 right-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <div className="absolute bottom-3 right-3 flex items-center space-x-2">
               <Button
-                type="submit"
+                type="button"
                 size="sm"
-                disabled={!message.trim() || isLoading}
-                className="bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white rounded-lg px-3 py-2"
+                variant="ghost"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading}
+                title="Attach PDF, Word, Excel, CSV or text files"
+                className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))] px-2 py-2"
               >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <Send className="w-4 h-4" />
-                )}
+                <Paperclip className="w-4 h-4" />
               </Button>
+              {isLoading ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={stopReply}
+                  title="Stop generating"
+                  className="bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white rounded-lg px-3 py-2"
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={!message.trim() || uploadingCount > 0 || !selectedModel}
+                  className="bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white rounded-lg px-3 py-2"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
 
           <div className="flex items-center justify-between text-xs text-[hsl(var(--office-text-secondary))]">
             <div className="flex items-center space-x-4">
+              {contextReport && contextReport.truncatedMessages > 0 && (
+                <span title={`${contextReport.promptTokens} of ${contextReport.budgetTokens} prompt tokens used`}>
+                  {contextReport.truncatedMessages} older {contextReport.truncatedMessages === 1 ? "message" : "messages"} left out of context
+                </span>
+              )}
               <span>Press <kbd className="px-1 py-0.5 bg-[hsl(var(--office-sidebar))] border border-[hsl(var(--office-border))] rounded">⏎</kbd> to send, <kbd className="px-1 py-0.5 bg-[hsl(var(--office-sidebar))] border border-[hsl(var(--office-border))] rounded">Shift ⏎</kbd> for new line</span>
             </div>
             <div className="flex items-center space-x-2">
@@ -5,7 +5,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, MessageSquare, Plus, Settings } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useModels } from "@/hooks/use-models";
+import { Trash2, MessageSquare, Plus, Settings, LogOut } from "lucide-react";
+import ConversationSearch from "./conversation-search";
+import ImportDialog from "./import-dialog";
 import type { Conversation } from "@shared/schema";
 
 interface SidebarProps {
@@ -13,6 +17,8 @@ interface SidebarProps {
   onModelChange: (model: string) => void;
   currentConversationId: number | null;
   onConversationSelect: (id: number) => void;
+  // Opens a search hit, scrolled to the message when there is one
+  onSearchResultSelect: (conversationId: number, messageId: number | null) => void;
   onNewChat: () => void;
   onToggle: () => void;
 }
@@ -22,15 +28,18 @@ export default function Sidebar({
   onModelChange,
   currentConversationId,
   onConversationSelect,
+  onSearchResultSelect,
   onNewChat,
   onToggle,
 }: SidebarProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
 
-  // Mock user ID - in a real app this would come from authentication
-  const userId = 1;
+  const { user, logoutMutation } = useAuth();
+  const userId = user!.id;
+  const { models } = useModels();
 
   // Query conversations
   const { data: conversations = [] } = useQuery<Conversation[]>({
@@ -100,6 +109,7 @@ export default function Sidebar({
           <Plus className="w-4 h-4" />
           <span>New Chat</span>
         </Button>
+        <ImportDialog onConversationSelect={onConversationSelect} />
       </div>
 
       {/* Model Selector */}
@@ -110,9 +120,11 @@ export default function Sidebar({
             <SelectValue />
           </SelectTrigger>
           <SelectContent className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))]">
-            <SelectItem value="gpt-4" className="text-[hsl(var(--office-text))] focus:bg-[hsl(var(--office-dark))]">GPT-4 (Most Capable)</SelectItem>
-            <SelectItem value="gpt-3.5-turbo" className="text-[hsl(var(--office-text))] focus:bg-[hsl(var(--office-dark))]">GPT-3.5 Turbo (Faster)</SelectItem>
-            <SelectItem value="gemini-pro" className="text-[hsl(var(--office-text))] focus:bg-[hsl(var(--office-dark))]">Gemini Pro</SelectItem>
+            {models.map(model => (
+              <SelectItem key={model.id} value={model.id} className="text-[hsl(var(--office-text))] focus:bg-[hsl(var(--office-dark))]">
+                {model.displayName}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -121,67 +133,84 @@ export default function Sidebar({
       <div className="flex-1 overflow-hidden">
         <ScrollArea className="h-full">
           <div className="p-2">
-            <h3 className="text-sm font-medium text-[hsl(var(--office-text-secondary))] px-2 py-2">Recent Conversations</h3>
-            <div className="space-y-1">
-              {conversations.map((conversation) => (
-                <div
-                  key={conversation.id}
-                  className={`group relative flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors duration-200 ${
-                    currentConversationId === conversation.id
-                      ? 'bg-[hsl(var(--office-accent))] text-white'
-                      : 'hover:bg-[hsl(var(--office-dark))] text-[hsl(var(--office-text))]'
-                  }`}
-                  onClick={() => onConversationSelect(conversation.id)}
-                >
-                  <div className="flex items-center space-x-3 flex-1 min-w-0">
-                    <MessageSquare className="w-4 h-4 flex-shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">
-                        {conversation.title || "New Chat"}
-                      </p>
-                      <p className="text-xs opacity-70 truncate">
-                        {new Date(conversation.updatedAt).toLocaleDateString()}
-                      </p>
-                    </div>
-                  </div>
+            <div className="px-2 pt-2">
+              <ConversationSearch query={searchQuery} onQueryChange={setSearchQuery} onSelect={onSearchResultSelect} />
+            </div>
+            {!searchQuery.trim() && (
+              <>
+                <h3 className="text-sm font-medium text-[hsl(var(--office-text-secondary))] px-2 py-2">Recent Conversations</h3>
+                <div className="space-y-1">
+                  {conversations.map((conversation) => (
+                    <div
+                      key={conversation.id}
+                      className={`group relative flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors duration-200 ${
+                        currentConversationId === conversation.id
+                          ? 'bg-[hsl(var(--office-accent))] text-white'
+                          : 'hover:bg-[hsl(var(--office-dark))] text-[hsl(var(--office-text))]'
+                      }`}
+                      onClick={() => onConversationSelect(conversation.id)}
+                    >
+                      <div className="flex items-center space-x-3 flex-1 min-w-0">
+                        <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {conversation.title || "New Chat"}
+                          </p>
+                          <p className="text-xs opacity-70 truncate">
+                            {new Date(conversation.updatedAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
 
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => handleDeleteClick(conversation.id, e)}
-                    className={`opacity-0 group-hover:opacity-100 transition-opacity p-1 h-auto ${
-                      deleteConfirm === conversation.id
-                        ? 'text-red-400 hover:text-red-300'
-                        : 'text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]'
-                    }`}
-                  >
-                    {deleteConfirm === conversation.id ? (
-                      <span className="text-xs px-2">Click to confirm</span>
-                    ) : (
-                      <Trash2 className="w-3 h-3" />
-                    )}
-                  </Button>
-                </div>
-              ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => handleDeleteClick(conversation.id, e)}
+                        className={`opacity-0 group-hover:opacity-100 transition-opacity p-1 h-auto ${
+                          deleteConfirm === conversation.id
+                            ? 'text-red-400 hover:text-red-300'
+                            : 'text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]'
+                        }`}
+                      >
+                        {deleteConfirm === conversation.id ? (
+                          <span className="text-xs px-2">Click to confirm</span>
+                        ) : (
+                          <Trash2 className="w-3 h-3" />
+                        )}
+                      </Button>
+                    </div>
+                  ))}
 
-              {conversations.length === 0 && (
-                <div className="text-center py-8 text-[hsl(var(--office-text-secondary))]">
-                  <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">No conversations yet</p>
-                  <p className="text-xs opacity-70">Start a new chat to begin</p>
+                  {conversations.length === 0 && (
+                    <div className="text-center py-8 text-[hsl(var(--office-text-secondary))]">
+                      <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                      <p className="text-sm">No conversations yet</p>
+                      <p className="text-xs opacity-70">Start a new chat to begin</p>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
+              </>
+            )}
           </div>
         </ScrollArea>
       </div>
 
       {/* Footer */}
-      <div className="p-4 border-t border-[hsl(var(--office-border))]">
-        <div className="text-xs text-[hsl(var(--office-text-secondary))]">
-          <p>OfficeGPT Assistant</p>
+      <div className="p-4 border-t border-[hsl(var(--office-border))] flex items-center justify-between">
+        <div className="text-xs text-[hsl(var(--office-text-secondary))] min-w-0">
+          <p className="truncate">Signed in as {user!.username}</p>
           <p className="opacity-70">AI-powered business consultation</p>
         </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          title="Sign out"
+          className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+        >
+          <LogOut className="w-4 h-4" />
+        </Button>
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { MessageSource } from "@shared/schema";
+
+// "[2]" or "[1, 3]" in a reply
+const CITATION_PATTERN = /\[(\d+(?:,\s*\d+)*)\]/g;
+
+// A knowledge base passage the reply cites; opens the passage on click
+export function SourceCitation({ source, children }: { source: MessageSource; children: ReactNode }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-96 bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))] text-xs"
+      >
+        <div className="mb-2 font-medium">[{source.number}] {source.title}</div>
+        <div className="max-h-64 overflow-y-auto office-scrollbar whitespace-pre-wrap text-[hsl(var(--office-text-secondary))]">
+          {source.snippet}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Turns citation markers in a line of the reply into links to their
+// sources; markers without a saved source stay as text
+export function withCitations(text: string, sources: MessageSource[]): ReactNode[] {
+  if (sources.length === 0) return [text];
+
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    const cited = match[1]
+      .split(",")
+      .map(number => sources.find(source => source.number === Number(number)))
+      .filter(source => source !== undefined);
+    if (cited.length === 0) continue;
+
+    parts.push(text.slice(last, match.index));
+    cited.forEach(source => parts.push(
+      <SourceCitation key={`${match.index}-${source.number}`} source={source}>
+        <button className="mx-0.5 align-super text-[10px] font-medium text-[hsl(var(--office-accent))] hover:underline">
+          [{source.number}]
+        </button>
+      </SourceCitation>
+    ));
+    last = match.index! + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
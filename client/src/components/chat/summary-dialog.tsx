@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { chatApi } from "@/lib/chat-api";
+import { ScrollText } from "lucide-react";
+import type { Conversation } from "@shared/schema";
+
+interface SummaryDialogProps {
+  conversation: Conversation;
+}
+
+export default function SummaryDialog({ conversation }: SummaryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(conversation.summary || "");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the stored summary every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(conversation.summary || "");
+  }, [open, conversation.summary]);
+
+  const saveSummary = useMutation({
+    mutationFn: async (summary: string) => {
+      return await chatApi.updateConversationSummary(conversation.id, summary);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', conversation.id] });
+      setOpen(false);
+      toast({
+        title: "Summary saved",
+        description: "Future replies will use the updated summary.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save summary",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+        >
+          <ScrollText className="w-4 h-4 mr-2" />
+          Summary
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-[hsl(var(--office-sidebar))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]">
+        <DialogHeader>
+          <DialogTitle>Conversation summary</DialogTitle>
+          <DialogDescription className="text-[hsl(var(--office-text-secondary))]">
+            Older messages that no longer fit the model's context are condensed here and sent along with every new message.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="No summary yet. One is written automatically once the conversation outgrows the context window."
+          className="min-h-[200px] bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]"
+        />
+        {conversation.summaryUpdatedAt && (
+          <p className="text-xs text-[hsl(var(--office-text-secondary))]">
+            Last updated {new Date(conversation.summaryUpdatedAt).toLocaleString()}
+          </p>
+        )}
+        <DialogFooter>
+          <Button
+            onClick={() => saveSummary.mutate(draft)}
+            disabled={saveSummary.isPending || draft === (conversation.summary || "")}
+            className="bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
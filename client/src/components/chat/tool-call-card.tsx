@@ -0,0 +1,80 @@
+import { useState, type ReactNode } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronRight, Wrench } from "lucide-react";
+import InvestmentChart from "./investment-chart";
+import { isCalculatorTool, type CalculatorToolName, type CalculatorToolResult } from "@shared/calculators";
+import type { Message } from "@shared/schema";
+
+interface ToolCallCardProps {
+  message: Message;
+  // Extra controls for the header, e.g. the branch pager
+  actions?: ReactNode;
+}
+
+function prettyJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+// Calculator tools whose results are also shown as a picture, outside the
+// collapsed part
+const resultViews: { [Name in CalculatorToolName]?: (result: CalculatorToolResult<Name>) => ReactNode } = {
+  compare_investments: result => <InvestmentChart result={result} />,
+};
+
+// The saved content is the calculator's result for the tool
+function calculatorView<Name extends CalculatorToolName>(name: Name, content: string): ReactNode {
+  const view = resultViews[name];
+  if (!view) return null;
+  try {
+    const result: CalculatorToolResult<Name> = JSON.parse(content);
+    return view(result);
+  } catch {
+    return null;
+  }
+}
+
+function resultView(message: Message): ReactNode {
+  const call = message.toolCall;
+  if (!call || call.isError || !isCalculatorTool(call.name)) return null;
+  return calculatorView(call.name, message.content);
+}
+
+// A tool call the assistant made, collapsed to one line until opened
+export default function ToolCallCard({ message, actions }: ToolCallCardProps) {
+  const [open, setOpen] = useState(false);
+  const call = message.toolCall;
+  if (!call) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="ml-11">
+      <div className="flex items-center space-x-2 text-xs text-[hsl(var(--office-text-secondary))]">
+        <CollapsibleTrigger className="flex items-center space-x-2 rounded-lg border border-[hsl(var(--office-border))] bg-[hsl(var(--office-sidebar))] px-3 py-1.5 hover:text-[hsl(var(--office-text))] transition-colors">
+          <ChevronRight className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} />
+          <Wrench className="w-3 h-3" />
+          <span>Used tool <span className="font-mono">{call.name}</span></span>
+          {call.isError && <span className="text-red-400">failed</span>}
+        </CollapsibleTrigger>
+        {actions}
+      </div>
+      {resultView(message)}
+      <CollapsibleContent>
+        <div className="mt-2 space-y-2 rounded-lg border border-[hsl(var(--office-border))] bg-[hsl(var(--office-sidebar))] p-3 text-xs">
+          <div>
+            <div className="mb-1 text-[hsl(var(--office-text-secondary))]">Input</div>
+            <pre className="overflow-x-auto whitespace-pre-wrap font-mono">{JSON.stringify(call.arguments, null, 2)}</pre>
+          </div>
+          <div>
+            <div className="mb-1 text-[hsl(var(--office-text-secondary))]">{call.isError ? "Error" : "Result"}</div>
+            <pre className={`overflow-x-auto whitespace-pre-wrap font-mono ${call.isError ? 'text-red-400' : ''}`}>
+              {prettyJson(message.content)}
+            </pre>
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
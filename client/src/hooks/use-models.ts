@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CatalogModel } from "@shared/schema";
+
+// The server-side model catalog, minus hidden models
+export function useModels() {
+  const { data: models = [], isLoading } = useQuery<CatalogModel[]>({
+    queryKey: ["/api/models"],
+  });
+
+  // Matches retired ids too, e.g. "gpt-4" on older messages
+  const findModel = (id: string | null | undefined) =>
+    id ? models.find(model => model.id === id || model.aliases.includes(id)) : undefined;
+
+  const modelLabel = (id: string | null | undefined) => findModel(id)?.displayName ?? id ?? "";
+
+  return { models, isLoading, findModel, modelLabel };
+}
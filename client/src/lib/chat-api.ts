@@ -1,5 +1,54 @@
 import { apiRequest } from "./queryClient";
-import type { InsertConversation, InsertMessage } from "@shared/schema";
+import type { AttachmentInfo, ContextReport, ConversationSettings, ImportReport, InsertConversation, InsertMessage, Message } from "@shared/schema";
+
+export interface StreamMessageHandlers {
+  onUserMessage?: (message: Message) => void;
+  onContext?: (report: ContextReport) => void;
+  // A tool call the assistant made and its saved result
+  onToolMessage?: (message: Message) => void;
+  onDelta: (text: string) => void;
+  // Aborting closes the stream; the server stops the model when it notices.
+  // Only a fallback for when stopReply cannot reach the reply.
+  signal?: AbortSignal;
+}
+
+export interface StreamMessageResult {
+  // Missing only when the reply was stopped before it had any text
+  assistantMessage?: Message;
+  tokensUsed?: number;
+  // Set when stopReply ended the reply; the partial reply is saved
+  stopped?: boolean;
+}
+
+// Reads a server-sent event stream from a fetch response and calls onEvent
+// for every complete event.
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void,
+) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() || "";
+
+    for (const block of blocks) {
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
 
 export const chatApi = {
   // Conversations
@@ -28,13 +77,123 @@ export const chatApi = {
     return await response.json();
   },
 
+  updateConversationSummary: async (id: number, summary: string) => {
+    const response = await apiRequest("PUT", `/api/conversations/${id}/summary`, { summary });
+    return await response.json();
+  },
+
+  updateConversationSettings: async (id: number, settings: ConversationSettings) => {
+    const response = await apiRequest("PUT", `/api/conversations/${id}/settings`, settings);
+    return await response.json();
+  },
+
   // Messages
-  sendMessage: async (conversationId: number, content: string, model: string) => {
+  setMessagePinned: async (id: number, pinned: boolean) => {
+    const response = await apiRequest("PATCH", `/api/messages/${id}`, { pinned });
+    return await response.json();
+  },
+
+  // Stores a new version of an assistant reply next to the existing ones
+  regenerateMessage: async (id: number, model?: string) => {
+    const response = await apiRequest("POST", `/api/messages/${id}/regenerate`, { model });
+    return await response.json();
+  },
+
+  // Saves an edited copy of a prompt as a new branch and answers it
+  editMessage: async (id: number, content: string, model: string) => {
+    const response = await apiRequest("POST", `/api/messages/${id}/edit`, { content, model });
+    return await response.json();
+  },
+
+  switchBranch: async (conversationId: number, messageId: number) => {
+    const response = await apiRequest("POST", `/api/conversations/${conversationId}/branch`, { messageId });
+    return await response.json();
+  },
+
+  // Attachments are uploaded on their own and sent with a message by id
+  uploadAttachment: async (file: File): Promise<AttachmentInfo> => {
+    const form = new FormData();
+    form.append("file", file);
+    const response = await apiRequest("POST", "/api/attachments", form);
+    return await response.json();
+  },
+
+  // Knowledge base
+  uploadKnowledgeDocument: async (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    const response = await apiRequest("POST", "/api/knowledge", form);
+    return await response.json();
+  },
+
+  deleteKnowledgeDocument: async (id: number) => {
+    const response = await apiRequest("DELETE", `/api/knowledge/${id}`);
+    return await response.json();
+  },
+
+  // Import
+  importConversations: async (file: File): Promise<ImportReport> => {
+    const form = new FormData();
+    form.append("file", file);
+    const response = await apiRequest("POST", "/api/import", form);
+    return await response.json();
+  },
+
+  // Calculations
+  rerunCalculation: async (id: number) => {
+    const response = await apiRequest("POST", `/api/calculations/${id}/rerun`);
+    return await response.json();
+  },
+
+  sendMessage: async (conversationId: number, content: string, model: string, attachmentIds?: number[]) => {
     const response = await apiRequest("POST", "/api/analyze-query", {
       conversationId,
       content,
       model,
+      attachmentIds,
+    });
+    return await response.json();
+  },
+  // Streams the assistant reply; resolves once the reply has been saved,
+  // including a partial reply after stopReply. A provider error mid-stream
+  // rejects, but any partial reply is saved first.
+  streamMessage: async (
+    conversationId: number,
+    content: string,
+    model: string,
+    handlers: StreamMessageHandlers,
+    attachmentIds?: number[],
+  ): Promise<StreamMessageResult> => {
+    const response = await apiRequest("POST", "/api/analyze-query/stream", {
+      conversationId,
+      content,
+      model,
+      attachmentIds,
+    }, handlers.signal);
+
+    let result: StreamMessageResult | undefined;
+    let errorMessage: string | undefined;
+
+    await readEventStream(response, (event, data) => {
+      if (event === "user-message") handlers.onUserMessage?.(data);
+      else if (event === "context") handlers.onContext?.(data);
+      else if (event === "tool") handlers.onToolMessage?.(data);
+      else if (event === "delta") handlers.onDelta(data.text);
+      else if (event === "done") result = data;
+      else if (event === "stopped") result = { ...data, stopped: true };
+      else if (event === "error") errorMessage = data.message;
     });
+
+    if (!result) {
+      throw new Error(errorMessage || "The response stream ended unexpectedly");
+    }
+    return result;
+  },
+
+  // Stops the reply streaming in the conversation; its stream then ends.
+  // `stopped` is false when this server process is not streaming it.
+  stopReply: async (conversationId: number): Promise<{ stopped: boolean }> => {
+    const response = await apiRequest("POST", `/api/conversations/${conversationId}/stop`);
     return await response.json();
   },
 };
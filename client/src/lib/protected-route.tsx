@@ -0,0 +1,27 @@
+import { Loader2 } from "lucide-react";
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: () => React.JSX.Element;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-screen bg-[hsl(var(--office-dark))]">
+          <Loader2 className="h-8 w-8 animate-spin text-[hsl(var(--office-accent))]" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
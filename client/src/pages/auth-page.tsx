@@ -0,0 +1,123 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Mirrors the server-side rules in server/auth.ts
+const registerSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+type Credentials = z.infer<typeof loginSchema>;
+
+const inputClassName = "bg-[hsl(var(--office-dark))] border-[hsl(var(--office-border))] text-[hsl(var(--office-text))]";
+
+function CredentialsForm({
+  schema,
+  submitLabel,
+  isPending,
+  onSubmit,
+}: {
+  schema: typeof loginSchema | typeof registerSchema;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: Credentials) => void;
+}) {
+  const form = useForm<Credentials>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" className={inputClassName} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" className={inputClassName} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button
+          type="submit"
+          disabled={isPending}
+          className="w-full bg-[hsl(var(--office-accent))] hover:bg-[hsl(var(--office-accent))]/90 text-white"
+        >
+          {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-[hsl(var(--office-dark))] text-[hsl(var(--office-text))] px-6">
+      <div className="w-full max-w-sm bg-[hsl(var(--office-sidebar))] border border-[hsl(var(--office-border))] rounded-2xl p-6">
+        <h1 className="text-2xl font-bold mb-1">OfficeGPT</h1>
+        <p className="text-sm text-[hsl(var(--office-text-secondary))] mb-6">Sign in to continue your conversations</p>
+
+        <Tabs defaultValue="login">
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="login">Sign in</TabsTrigger>
+            <TabsTrigger value="register">Create account</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login">
+            <CredentialsForm
+              schema={loginSchema}
+              submitLabel="Sign in"
+              isPending={loginMutation.isPending}
+              onSubmit={(values) => loginMutation.mutate(values)}
+            />
+          </TabsContent>
+          <TabsContent value="register">
+            <CredentialsForm
+              schema={registerSchema}
+              submitLabel="Create account"
+              isPending={registerMutation.isPending}
+              onSubmit={(values) => registerMutation.mutate(values)}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,17 @@ import { useParams } from "wouter";
 import Sidebar from "@/components/chat/sidebar";
 import MessageArea from "@/components/chat/message-area";
 import MessageInput from "@/components/chat/message-input";
-import { useQuery } from "@tanstack/react-query";
+import SummaryDialog from "@/components/chat/summary-dialog";
+import ConversationSettings from "@/components/chat/conversation-settings";
+import CalculationHistory from "@/components/chat/calculation-history";
+import KnowledgeLibrary from "@/components/chat/knowledge-library";
+import ExportMenu from "@/components/chat/export-menu";
+import { Button } from "@/components/ui/button";
+import { Calculator } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useModels } from "@/hooks/use-models";
+import { useToast } from "@/hooks/use-toast";
+import { chatApi } from "@/lib/chat-api";
 import type { ConversationWithMessages } from "@shared/schema";
 
 export default function Chat() {
@@ -11,8 +21,25 @@ export default function Chat() {
   const [currentConversationId, setCurrentConversationId] = useState<number | null>(
     conversationId ? parseInt(conversationId) : null
   );
-  const [selectedModel, setSelectedModel] = useState("gpt-4");
+  const [selectedModel, setSelectedModel] = useState("");
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [selectedCalculationId, setSelectedCalculationId] = useState<number | null>(null);
+  const [comparedCalculationIds, setComparedCalculationIds] = useState<number[]>([]);
+  // Message to scroll to once its conversation is shown, from a search hit
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+
+  const openSearchResult = (conversationId: number, messageId: number | null) => {
+    setCurrentConversationId(conversationId);
+    setFocusMessageId(messageId);
+  };
+
+  const openCalculation = (id: number | null) => {
+    setSelectedCalculationId(id);
+    setComparedCalculationIds([]);
+    setHistoryOpen(true);
+  };
 
   // Query for current conversation
   const { data: conversation, isLoading } = useQuery<ConversationWithMessages>({
@@ -26,6 +53,51 @@ export default function Chat() {
     enabled: !!currentConversationId,
   });
 
+  const { models, findModel, modelLabel } = useModels();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Switching conversations restores the model each one was using
+  useEffect(() => {
+    if (conversation?.model) {
+      setSelectedModel(conversation.model);
+    }
+  }, [conversation?.id, conversation?.model]);
+
+  // Picking a model while a conversation is open changes that conversation
+  const saveModel = useMutation({
+    mutationFn: async ({ id, model }: { id: number; model: string }) => {
+      return await chatApi.updateConversationSettings(id, { model });
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations/detail', id] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change the model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleModelChange = (model: string) => {
+    setSelectedModel(model);
+    if (conversation && findModel(conversation.model)?.id !== model) {
+      saveModel.mutate({ id: conversation.id, model });
+    }
+  };
+
+  // Fall back to the first catalog model until one is picked, or when the
+  // picked one is no longer offered; retired ids become their replacement
+  useEffect(() => {
+    if (models.length === 0) return;
+    const next = findModel(selectedModel)?.id ?? models[0].id;
+    if (next !== selectedModel) {
+      setSelectedModel(next);
+    }
+  }, [models, selectedModel]);
+
   // Update URL when conversation changes
   useEffect(() => {
     if (currentConversationId && conversationId !== currentConversationId.toString()) {
@@ -39,9 +111,10 @@ export default function Chat() {
       <div className={`${sidebarOpen ? 'w-80' : 'w-0'} transition-all duration-300 overflow-hidden lg:w-80`}>
         <Sidebar
           selectedModel={selectedModel}
-          onModelChange={setSelectedModel}
+          onModelChange={handleModelChange}
           currentConversationId={currentConversationId}
           onConversationSelect={setCurrentConversationId}
+          onSearchResultSelect={openSearchResult}
           onNewChat={() => setCurrentConversationId(null)}
           onToggle={() => setSidebarOpen(!sidebarOpen)}
         />
@@ -68,18 +141,42 @@ export default function Chat() {
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                 </svg>
-                <span>{selectedModel === "gpt-4" ? "GPT-4" : selectedModel === "gpt-3.5-turbo" ? "GPT-3.5" : "Gemini Pro"}</span>
+                <span>{modelLabel(selectedModel)}</span>
                 <span className="w-1 h-1 bg-[hsl(var(--office-text-secondary))] rounded-full"></span>
                 <span>{conversation?.messages?.length || 0} messages</span>
               </div>
             </div>
           </div>
+          <div className="flex items-center space-x-2">
+            {conversation && (
+              <>
+                <ConversationSettings conversation={conversation} />
+                <SummaryDialog conversation={conversation} />
+                <ExportMenu conversation={conversation} />
+              </>
+            )}
+            <KnowledgeLibrary />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => openCalculation(null)}
+              className="text-[hsl(var(--office-text-secondary))] hover:text-[hsl(var(--office-text))]"
+            >
+              <Calculator className="w-4 h-4 mr-2" />
+              Calculations
+            </Button>
+          </div>
         </div>
 
         {/* Messages */}
         <MessageArea 
           conversation={conversation} 
           isLoading={isLoading}
+          streamingReply={streamingReply}
+          selectedModel={selectedModel}
+          onOpenCalculation={openCalculation}
+          focusMessageId={focusMessageId}
+          onFocusHandled={() => setFocusMessageId(null)}
           onSuggestedPrompt={(prompt) => {
             const textarea = document.querySelector('textarea') as HTMLTextAreaElement;
             if (textarea) {
@@ -96,8 +193,18 @@ export default function Chat() {
           conversationId={currentConversationId}
           selectedModel={selectedModel}
           onConversationCreated={setCurrentConversationId}
+          onStreamingReplyChange={setStreamingReply}
         />
       </div>
+
+      <CalculationHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        selectedId={selectedCalculationId}
+        onSelect={setSelectedCalculationId}
+        compareIds={comparedCalculationIds}
+        onCompareChange={setComparedCalculationIds}
+      />
     </div>
   );
 }
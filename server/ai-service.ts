@@ -1,125 +1,319 @@
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY must be set");
-}
-
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY 
-});
+import {
+  fallbackModels,
+  getProvider,
+  ProviderError,
+  withRetry,
+  type ChatMessage,
+  type ChatResult,
+  type StreamDeltaHandler,
+  type ToolCall,
+  type ToolDefinition
+} from "./providers";
+import type { ToolResult, ToolRunner } from "./tools";
 
 export interface AnalysisRequest {
   query: string;
   model: string;
-  conversationHistory?: Array<{ role: string; content: string }>;
+  conversationHistory?: ChatMessage[];
   context?: string;
+  // The conversation's generation settings; defaults apply when unset
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  // Tools the model may call, and a hook that sees each call once it has run
+  tools?: ToolRunner;
+  onToolResult?: (step: ToolStep) => Promise<void> | void;
+  // Cancels the provider call, e.g. when the client disconnects
+  signal?: AbortSignal;
 }
 
 export interface AnalysisResult {
   response: string;
+  // The model that actually answered, which differs from the requested one
+  // after a fallback
   model: string;
   tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  finishReason?: string;
+  providerRequestId?: string;
+  // Wall time of the whole call, including retries and fallbacks
+  latencyMs: number;
+}
+
+export interface ToolStep {
+  call: ToolCall;
+  result: ToolResult;
+  // The model that asked for the call
+  model: string;
+}
+
+export interface SummaryRequest {
+  model: string;
+  previousSummary?: string | null;
+  messages: Array<{ role: string; content: string }>;
+}
+
+export interface ExplanationRequest {
+  model: string;
+  // What was calculated, e.g. "Business expense deductions"
+  title: string;
+  // The calculator's inputs and results, passed to the model as JSON
+  input: unknown;
+  result: unknown;
+}
+
+export type { StreamDeltaHandler };
+
+// Thrown instead of a provider error when the request's signal was aborted
+export class GenerationAbortedError extends Error {
+  constructor() {
+    super("Generation was stopped");
+    this.name = "GenerationAbortedError";
+  }
+}
+
+// A failed AI call, with the HTTP status routes should answer with
+export class AIServiceError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AIServiceError";
+    this.status = status;
+  }
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2000;
+// Rounds of tool calls per reply before the model has to answer in text
+const MAX_TOOL_STEPS = parseInt(process.env.AI_MAX_TOOL_STEPS || "") || 5;
+
+export const SYSTEM_PROMPT = "You are a helpful AI assistant. Give direct, natural responses without formal business language, headers, or structured analysis. Keep your answers conversational and friendly, like you're chatting with someone. Don't use business document formatting.";
+
+const SUMMARY_PROMPT = "You maintain a running summary of a chat between a user and an AI assistant. Merge the existing summary with the new messages into one updated summary. Keep facts, decisions, figures, names and any standing instructions from the user; drop small talk. Write plain prose, at most 250 words, and reply with the summary only.";
+
+const EXPLANATION_PROMPT = "You explain results a tax calculator has already worked out for a Canadian small-business owner. Use the figures exactly as given: do not recalculate, adjust or round them, and do not introduce figures that are not in the results. In two or three short paragraphs of plain prose, say what drives the result and what the owner should keep records of, then note that it is an estimate and not professional tax advice.";
+
+function buildMessages(request: AnalysisRequest): ChatMessage[] {
+  const { query, conversationHistory = [] } = request;
+
+  // Build messages array with conversation history
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT
+    }
+  ];
+
+  // Add conversation history if provided
+  messages.push(...conversationHistory);
+
+  // Add current user query directly
+  messages.push({
+    role: "user",
+    content: query
+  });
+
+  return messages;
+}
+
+function toServiceError(error: unknown): AIServiceError {
+  console.error("AI Service error:", error);
+
+  if (error instanceof ProviderError) {
+    if (error.status === 401 || error.status === 403) {
+      return new AIServiceError("AI service configuration error. Please check API keys.", 500);
+    } else if (error.status === 429) {
+      return new AIServiceError("Rate limit exceeded. Please try again in a moment.", 429);
+    } else if (error.status === 404) {
+      return new AIServiceError("Invalid model specified. Please select a valid model.", 400);
+    } else {
+      return new AIServiceError(`AI service error: ${error.message}`, 502);
+    }
+  } else if (error instanceof Error) {
+    // Providers throw plain errors for local setup problems such as a missing key
+    if (/api[ _]key/i.test(error.message)) {
+      return new AIServiceError("AI service configuration error. Please check API keys.", 500);
+    }
+    return new AIServiceError(`AI service error: ${error.message}`, 500);
+  } else {
+    return new AIServiceError("An unexpected error occurred during analysis.", 500);
+  }
+}
+
+function toAnalysisResult(result: ChatResult, startedAt: number): AnalysisResult {
+  return {
+    response: result.content,
+    model: result.model,
+    tokensUsed: result.tokensUsed,
+    promptTokens: result.promptTokens,
+    completionTokens: result.completionTokens,
+    finishReason: result.finishReason,
+    providerRequestId: result.requestId,
+    latencyMs: Date.now() - startedAt
+  };
+}
+
+// Calls the requested model, retrying transient failures, then each model in
+// its fallback chain (see AI_FALLBACK_CHAIN) until one answers. `canRetry`
+// returning false stops both, e.g. once part of a streamed reply was sent.
+async function callWithFallback(
+  request: AnalysisRequest,
+  call: (model: string) => Promise<ChatResult>,
+  canRetry: () => boolean = () => true
+): Promise<ChatResult> {
+  const models = [request.model, ...fallbackModels(request.model)];
+  let lastError: unknown;
+
+  for (const model of models) {
+    try {
+      return await withRetry(() => call(model), { signal: request.signal, canRetry, label: `${model} request` });
+    } catch (error) {
+      if (request.signal?.aborted || !canRetry()) throw error;
+      lastError = error;
+      if (model !== models[models.length - 1]) {
+        console.warn(`${model} failed (${(error as Error).message}); falling back to the next model`);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+const addUsage = (total?: number, more?: number) =>
+  total === undefined ? more : more === undefined ? total : total + more;
+
+// Asks the model, runs the tools it calls, and asks again with their results
+// until it answers in text. `complete` makes one (retried) model call.
+async function generateWithTools(
+  request: AnalysisRequest,
+  complete: (messages: ChatMessage[], tools?: ToolDefinition[]) => Promise<ChatResult>
+): Promise<AnalysisResult> {
+  const startedAt = Date.now();
+  const messages = buildMessages(request);
+  let usage: Pick<ChatResult, "tokensUsed" | "promptTokens" | "completionTokens"> = {};
+
+  for (let step = 0; ; step++) {
+    // Tools are withheld on the last step so the model has to answer
+    const tools = step < MAX_TOOL_STEPS ? request.tools?.definitions : undefined;
+    const result = await complete(messages, tools?.length ? tools : undefined);
+    usage = {
+      tokensUsed: addUsage(usage.tokensUsed, result.tokensUsed),
+      promptTokens: addUsage(usage.promptTokens, result.promptTokens),
+      completionTokens: addUsage(usage.completionTokens, result.completionTokens),
+    };
+
+    if (!result.toolCalls?.length || !request.tools) {
+      return toAnalysisResult({ ...result, ...usage }, startedAt);
+    }
+
+    messages.push({ role: "assistant", content: result.content, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const output = await request.tools.run(call);
+      messages.push({ role: "tool", content: output.content, toolCallId: call.id, toolName: call.name });
+      await request.onToolResult?.({ call, result: output, model: result.model });
+    }
+  }
 }
 
 export const aiService = {
   async analyzeQuery(request: AnalysisRequest): Promise<AnalysisResult> {
     try {
-      const { query, model, conversationHistory = [], context } = request;
-      
-      // Build messages array with conversation history
-      const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
-        {
-          role: "system",
-          content: "You are a helpful AI assistant. Give direct, natural responses without formal business language, headers, or structured analysis. Keep your answers conversational and friendly, like you're chatting with someone. Don't use business document formatting."
-        }
-      ];
-
-      // Add conversation history if provided
-      if (conversationHistory.length > 0) {
-        conversationHistory.forEach(msg => {
-          messages.push({
-            role: msg.role as "user" | "assistant",
-            content: msg.content
-          });
-        });
-      }
+      return await generateWithTools(request, (messages, tools) =>
+        callWithFallback(request, model => getProvider(model).chat({
+          model,
+          messages,
+          maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          topP: request.topP,
+          tools,
+          signal: request.signal
+        }))
+      );
+    } catch (error) {
+      if (request.signal?.aborted) throw new GenerationAbortedError();
+      throw toServiceError(error);
+    }
+  },
 
-      // Add current user query directly
-      messages.push({
-        role: "user",
-        content: query
+  // Same as analyzeQuery, but hands each text delta to onDelta as soon as the
+  // provider sends it. The resolved result carries the full concatenated reply
+  // of the final step; text the model writes before calling tools is dropped.
+  async streamQuery(request: AnalysisRequest, onDelta: StreamDeltaHandler): Promise<AnalysisResult> {
+    try {
+      return await generateWithTools(request, (messages, tools) => {
+        // Text already sent to the client can't be taken back, so only retry
+        // or fall back before the first delta
+        let started = false;
+        return callWithFallback(request, model => getProvider(model).stream({
+          model,
+          messages,
+          maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          topP: request.topP,
+          tools,
+          signal: request.signal
+        }, text => {
+          started = true;
+          onDelta(text);
+        }), () => !started);
       });
+    } catch (error) {
+      if (request.signal?.aborted) throw new GenerationAbortedError();
+      throw toServiceError(error);
+    }
+  },
 
-      if (model.toLowerCase().includes('gemini')) {
-        // Gemini API integration using fetch (TaxBuddy pattern)
-        const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_KEY;
-        
-        if (!GEMINI_API_KEY) {
-          throw new Error("Gemini API key not configured");
-        }
-
-        const geminiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${GEMINI_API_KEY}`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [{
-              role: "user",
-              parts: [{ text: query }],
-            }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2000,
-            },
-          }),
-        });
-
-        if (!geminiResponse.ok) {
-          throw new Error(`Gemini API error: ${geminiResponse.statusText}`);
-        }
-
-        const geminiData = await geminiResponse.json();
-        const response = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || "No response generated";
-
-        return {
-          response,
-          model: model,
-          tokensUsed: undefined // Gemini doesn't provide token usage in the same format
-        };
-      } else {
-        // OpenAI models
-        const response = await openai.chat.completions.create({
-          model: model === "gpt-4" ? "gpt-4o" : model,
-          messages: messages,
-          max_tokens: 2000,
-          temperature: 0.7
-        });
-
-        return {
-          response: response.choices[0].message.content || "No response generated",
-          model: model,
-          tokensUsed: response.usage?.total_tokens
-        };
-      }
+  // Folds messages that have aged out of the context window into the
+  // conversation's running summary and returns the new summary text.
+  async summarizeConversation(request: SummaryRequest): Promise<string> {
+    try {
+      const { model, previousSummary, messages } = request;
+      const transcript = messages
+        .map(msg => `${msg.role === "user" ? "User" : msg.role === "tool" ? "Tool result" : "Assistant"}: ${msg.content}`)
+        .join("\n\n");
+
+      const result = await withRetry(() => getProvider(model).chat({
+        model,
+        messages: [
+          { role: "system", content: SUMMARY_PROMPT },
+          {
+            role: "user",
+            content: `Existing summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`
+          }
+        ],
+        maxTokens: 600,
+        temperature: 0.2
+      }), { label: "Summary request" });
+
+      return result.content.trim();
     } catch (error) {
-      console.error("AI Service error:", error);
-      
-      if (error instanceof Error) {
-        if (error.message.includes("API key")) {
-          throw new Error("Invalid API key. Please check your OpenAI API key configuration.");
-        } else if (error.message.includes("rate limit")) {
-          throw new Error("Rate limit exceeded. Please try again in a moment.");
-        } else if (error.message.includes("model")) {
-          throw new Error("Invalid model specified. Please select a valid model.");
-        } else {
-          throw new Error(`AI service error: ${error.message}`);
-        }
-      } else {
-        throw new Error("An unexpected error occurred during analysis.");
-      }
+      throw toServiceError(error);
+    }
+  },
+
+  // Writes the narrative around numbers computed in code. The model only
+  // describes the results; it never produces them.
+  async explainCalculation(request: ExplanationRequest): Promise<string> {
+    try {
+      const { model, title, input, result } = request;
+      const explanation = await withRetry(() => getProvider(model).chat({
+        model,
+        messages: [
+          { role: "system", content: EXPLANATION_PROMPT },
+          {
+            role: "user",
+            content: `${title}\n\nInputs:\n${JSON.stringify(input, null, 2)}\n\nResults:\n${JSON.stringify(result, null, 2)}`
+          }
+        ],
+        maxTokens: 600,
+        temperature: 0.3
+      }), { label: "Explanation request" });
+
+      return explanation.content.trim();
+    } catch (error) {
+      throw toServiceError(error);
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { randomUUID } from "crypto";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import ExcelJS from "exceljs";
+import mammoth from "mammoth";
+import Papa from "papaparse";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { Attachment, AttachmentInfo, Message } from "@shared/schema";
+import { storage } from "./storage";
+import { envInt, UserInputError } from "./util";
+
+// Files uploaded to the chat. They are kept on disk under UPLOAD_DIR, and
+// their text is extracted locally on upload so every later prompt can send it
+// to the model without parsing the file again.
+
+export const MAX_ATTACHMENT_BYTES = envInt("ATTACHMENT_MAX_BYTES") ?? 10 * 1024 * 1024;
+const MAX_TEXT_CHARS = envInt("ATTACHMENT_MAX_TEXT_CHARS") ?? 50_000;
+const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+const uploadDir = () => path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+export type AttachmentKind = "pdf" | "docx" | "xlsx" | "csv" | "txt";
+
+const KINDS_BY_EXTENSION: Record<string, AttachmentKind> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+  ".csv": "csv",
+  ".txt": "txt",
+  ".md": "txt",
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(KINDS_BY_EXTENSION);
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Rows as a Markdown table, the first row as the header
+function toMarkdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return "";
+
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (cells[i] ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ")).join(" | ")} |`;
+  const [header, ...body] = rows;
+  return [line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n");
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+async function extractDocx(buffer: Buffer): Promise<string> {
+  const { value } = await mammoth.extractRawText({ buffer });
+  return value;
+}
+
+async function extractXlsx(buffer: Buffer): Promise<string> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheets: string[] = [];
+  workbook.eachSheet(sheet => {
+    const rows: string[][] = [];
+    sheet.eachRow(row => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, column) => {
+        cells[column - 1] = cell.text;
+      });
+      rows.push(cells);
+    });
+    if (rows.length > 0) {
+      sheets.push(`Sheet: ${sheet.name}\n${toMarkdownTable(rows)}`);
+    }
+  });
+  return sheets.join("\n\n");
+}
+
+function extractCsv(buffer: Buffer): string {
+  const { data } = Papa.parse<string[]>(buffer.toString("utf8"), { skipEmptyLines: true });
+  return toMarkdownTable(data);
+}
+
+export function attachmentKind(filename: string): AttachmentKind | undefined {
+  return KINDS_BY_EXTENSION[path.extname(filename).toLowerCase()];
+}
+
+export async function extractAttachmentText(kind: AttachmentKind, buffer: Buffer): Promise<string> {
+  switch (kind) {
+    case "pdf": return await extractPdf(buffer);
+    case "docx": return await extractDocx(buffer);
+    case "xlsx": return await extractXlsx(buffer);
+    case "csv": return extractCsv(buffer);
+    case "txt": return buffer.toString("utf8");
+  }
+}
+
+export function toAttachmentInfo(attachment: Attachment): AttachmentInfo {
+  const { userId, storagePath, extractedText, ...info } = attachment;
+  return info;
+}
+
+// Extracts the file's text, then stores the file and its record. Nothing is
+// stored for a file that cannot be read.
+export async function saveAttachment(userId: number, file: UploadedFile): Promise<Attachment> {
+  const kind = attachmentKind(file.originalname);
+  if (!kind) {
+    throw new UserInputError(`Unsupported file type. Attach ${ACCEPTED_EXTENSIONS.join(", ")} files.`);
+  }
+
+  let text: string;
+  try {
+    text = (await extractAttachmentText(kind, file.buffer)).trim();
+  } catch (error) {
+    console.error(`Failed to extract text from ${file.originalname}:`, error);
+    throw new UserInputError(`Could not read ${file.originalname}. The file may be damaged or password protected.`, 422);
+  }
+  if (!text) {
+    throw new UserInputError(`No text found in ${file.originalname}. Scanned PDFs need to be run through OCR first.`, 422);
+  }
+
+  const storagePath = path.join(uploadDir(), `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+  await mkdir(uploadDir(), { recursive: true });
+  await writeFile(storagePath, file.buffer);
+
+  return await storage.createAttachment({
+    userId,
+    filename: file.originalname,
+    mimeType: file.mimetype || "application/octet-stream",
+    kind,
+    size: file.size,
+    storagePath,
+    extractedText: text.slice(0, MAX_TEXT_CHARS),
+    truncated: text.length > MAX_TEXT_CHARS,
+  });
+}
+
+// Checks that every id is an upload of this user's that is unsent or already
+// belongs to the conversation, then ties them to the conversation
+export async function claimAttachments(userId: number, ids: unknown, conversationId: number): Promise<number[]> {
+  if (ids === undefined || ids === null) return [];
+  if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+    throw new UserInputError("attachmentIds must be a list of attachment ids");
+  }
+  const unique = Array.from(new Set(ids as number[]));
+  if (unique.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new UserInputError(`At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message`);
+  }
+
+  const found = await storage.getAttachments(unique);
+  const usable = found.filter(attachment =>
+    attachment.userId === userId && (attachment.conversationId === null || attachment.conversationId === conversationId)
+  );
+  if (usable.length !== unique.length) {
+    throw new UserInputError("Attachment not found", 404);
+  }
+
+  await storage.setAttachmentsConversation(unique, conversationId);
+  return unique;
+}
+
+function withAttachmentBlocks(content: string, attached: Attachment[]): string {
+  if (attached.length === 0) return content;
+  const blocks = attached.map(attachment =>
+    `<attachment name="${attachment.filename}">\n${attachment.extractedText}${attachment.truncated ? "\n[The rest of the file was cut off]" : ""}\n</attachment>`
+  );
+  return `${content}\n\n${blocks.join("\n\n")}`;
+}
+
+// The messages as the model should see them: user messages carry the text of
+// their attachments after the prompt
+export async function withAttachmentText(messages: Message[]): Promise<Message[]> {
+  const attached = await storage.getAttachments(messages.flatMap(message => message.attachmentIds ?? []));
+  if (attached.length === 0) return messages;
+
+  const byId = new Map(attached.map(attachment => [attachment.id, attachment]));
+  return messages.map(message => {
+    const files = (message.attachmentIds ?? [])
+      .map(id => byId.get(id))
+      .filter((attachment): attachment is Attachment => Boolean(attachment));
+    return files.length > 0 ? { ...message, content: withAttachmentBlocks(message.content, files) } : message;
+  });
+}
+
+// Removes stored files; a file that is already gone is not an error
+export async function deleteAttachmentFiles(attached: Attachment[]): Promise<void> {
+  await Promise.all(attached.map(attachment =>
+    unlink(attachment.storagePath).catch(error => {
+      if (error.code !== "ENOENT") console.error(`Failed to delete ${attachment.storagePath}:`, error);
+    })
+  ));
+}
@@ -0,0 +1,187 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import request from "supertest";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Attachment, Calculation, Conversation, Message, User } from "@shared/schema";
+import { registerRoutes } from "./routes";
+
+// Another user's conversations, messages, files and calculations must look
+// exactly like ones that do not exist: every route answers 404 and writes
+// nothing.
+
+const fixtures = vi.hoisted(() => {
+  const createdAt = new Date("2024-03-01T12:00:00Z");
+  const owner = { id: 1, username: "owner", password: "x" };
+  const intruder = { id: 2, username: "intruder", password: "x" };
+  const conversation = {
+    id: 10, title: "Payroll questions", userId: owner.id, model: "fake", temperature: 0.7, maxOutputTokens: 2000, topP: 1,
+    summary: null, summaryThroughMessageId: null, summaryUpdatedAt: null, activeLeafId: 101,
+    importSource: null, importKey: null, createdAt, updatedAt: createdAt,
+  };
+  const message = {
+    conversationId: conversation.id, toolCall: null, attachmentIds: null, sources: null, model: null, promptTokens: null,
+    completionTokens: null, latencyMs: null, finishReason: null, providerRequestId: null, status: null, pinned: false, createdAt,
+  };
+  const messages = [
+    { ...message, id: 100, role: "user", content: "How much salary should I take?", parentId: null },
+    { ...message, id: 101, role: "assistant", content: "It depends on your income.", model: "fake", parentId: 100 },
+  ];
+  const attachment = {
+    id: 5, userId: owner.id, conversationId: conversation.id, filename: "ledger.csv", mimeType: "text/csv", kind: "csv",
+    size: 10, storagePath: "/nonexistent/ledger.csv", extractedText: "a,b", truncated: false, createdAt,
+  };
+  const calculation = {
+    id: 7, userId: owner.id, type: "owner-pay", inputs: {}, results: {}, conversationId: conversation.id, toolCallId: null, createdAt,
+  };
+  const knowledgeDocument = {
+    id: 3, userId: owner.id, title: "Expense policy", filename: "policy.pdf", kind: "pdf", size: 10, chunkCount: 1, createdAt,
+  };
+  return { owner, intruder, users: [owner, intruder], conversation, messages, attachment, calculation, knowledgeDocument };
+});
+
+// Reads come from the fixtures; any write is a failure
+vi.mock("./storage", () => {
+  const { users, conversation, messages, attachment, calculation, knowledgeDocument } = fixtures;
+  const reads: Record<string, (...args: any[]) => Promise<unknown>> = {
+    getUser: async (id: number) => users.find(user => user.id === id),
+    getConversationRecord: async (id: number) => (id === conversation.id ? conversation : undefined),
+    getConversation: async (id: number) =>
+      id === conversation.id ? { ...conversation, messages, branches: {}, attachments: {} } : undefined,
+    getMessage: async (id: number) => messages.find(message => message.id === id),
+    getMessagesByConversation: async (id: number) => (id === conversation.id ? messages : []),
+    getAttachments: async (ids: number[]) => (ids.includes(attachment.id) ? [attachment] : []),
+    getCalculation: async (id: number) => (id === calculation.id ? calculation : undefined),
+    getKnowledgeDocument: async (id: number) => (id === knowledgeDocument.id ? knowledgeDocument : undefined),
+    getStaleKnowledgeChunks: async () => [],
+  };
+  const storage = new Proxy(reads, {
+    get: (target, name: string) => target[name] ?? (async () => {
+      throw new Error(`Unexpected storage write: ${name}`);
+    }),
+  });
+  return { storage };
+});
+
+// The session store needs Postgres; requests sign in with a header instead
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./auth", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./auth")>(),
+  setupAuth: (app: express.Express) => {
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      const user = fixtures.users.find(candidate => candidate.id === Number(req.header("x-test-user")));
+      req.user = user as User | undefined;
+      req.isAuthenticated = (() => Boolean(user)) as Request["isAuthenticated"];
+      next();
+    });
+  },
+}));
+
+let app: express.Express;
+
+beforeAll(async () => {
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+const as = (user: { id: number }) => ({
+  get: (url: string) => request(app).get(url).set("x-test-user", String(user.id)),
+  post: (url: string, body: object = {}) => request(app).post(url).set("x-test-user", String(user.id)).send(body),
+  put: (url: string, body: object = {}) => request(app).put(url).set("x-test-user", String(user.id)).send(body),
+  patch: (url: string, body: object = {}) => request(app).patch(url).set("x-test-user", String(user.id)).send(body),
+  delete: (url: string) => request(app).delete(url).set("x-test-user", String(user.id)),
+});
+
+const { owner, intruder, conversation, attachment, calculation, knowledgeDocument } = fixtures;
+const [prompt, reply] = fixtures.messages;
+
+type Call = [name: string, send: (client: ReturnType<typeof as>) => request.Test];
+
+const conversationRoutes: Call[] = [
+  ["GET detail", client => client.get(`/api/conversations/detail/${conversation.id}`)],
+  ["PATCH title", client => client.patch(`/api/conversations/${conversation.id}`, { title: "Mine now" })],
+  ["DELETE", client => client.delete(`/api/conversations/${conversation.id}`)],
+  ["PUT settings", client => client.put(`/api/conversations/${conversation.id}/settings`, { temperature: 0.2 })],
+  ["PUT summary", client => client.put(`/api/conversations/${conversation.id}/summary`, { summary: "Stolen" })],
+  ["POST branch", client => client.post(`/api/conversations/${conversation.id}/branch`, { messageId: prompt.id })],
+  ["GET export", client => client.get(`/api/conversations/${conversation.id}/export?format=md`)],
+  ["PATCH message pin", client => client.patch(`/api/messages/${reply.id}`, { pinned: true })],
+  ["POST regenerate", client => client.post(`/api/messages/${reply.id}/regenerate`, { model: "fake" })],
+  ["POST edit", client => client.post(`/api/messages/${prompt.id}/edit`, { content: "Changed", model: "fake" })],
+  ["POST analyze-query", client => client.post("/api/analyze-query", { conversationId: conversation.id, content: "Hi", model: "fake" })],
+  ["POST stop", client => client.post(`/api/conversations/${conversation.id}/stop`)],
+  ["POST analyze-query/stream", client => client.post("/api/analyze-query/stream", { conversationId: conversation.id, content: "Hi", model: "fake" })],
+  ["GET attachment download", client => client.get(`/api/attachments/${attachment.id}/download`)],
+  ["GET calculation", client => client.get(`/api/calculations/${calculation.id}`)],
+  ["POST calculation rerun", client => client.post(`/api/calculations/${calculation.id}/rerun`)],
+];
+
+describe("another user's data", () => {
+  it.each(conversationRoutes)("%s answers 404", async (_name, send) => {
+    const response = await send(as(intruder));
+    expect(response.status).toBe(404);
+  });
+
+  it("is the same 404 as a record that does not exist", async () => {
+    const foreign = await as(intruder).get(`/api/conversations/detail/${conversation.id}`);
+    const missing = await as(intruder).get("/api/conversations/detail/9999");
+    expect(foreign.status).toBe(missing.status);
+    expect(foreign.body).toEqual(missing.body);
+  });
+
+  it("is not listed under the other user's id", async () => {
+    const response = await as(intruder).get(`/api/conversations/${owner.id}`);
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("the owner", () => {
+  it("can read the conversation", async () => {
+    const response = await as(owner).get(`/api/conversations/detail/${conversation.id}`);
+    expect(response.status).toBe(200);
+    expect(response.body.id).toBe(conversation.id);
+  });
+
+  it("can export the conversation", async () => {
+    const response = await as(owner).get(`/api/conversations/${conversation.id}/export?format=md`);
+    expect(response.status).toBe(200);
+    expect(response.text).toContain(prompt.content);
+  });
+
+  it("can read the calculation", async () => {
+    const response = await as(owner).get(`/api/calculations/${calculation.id}`);
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("re-embedding the knowledge base", () => {
+  it("is open to a document's uploader for that document", async () => {
+    const response = await as(owner).post("/api/knowledge/reindex", { documentId: knowledgeDocument.id });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ updated: 0 });
+  });
+
+  it("is refused for another user's document", async () => {
+    const response = await as(intruder).post("/api/knowledge/reindex", { documentId: knowledgeDocument.id });
+    expect(response.status).toBe(403);
+  });
+
+  it("is refused for the whole library unless the user is an admin", async () => {
+    const response = await as(owner).post("/api/knowledge/reindex");
+    expect(response.status).toBe(403);
+  });
+
+  it("lets an admin re-embed the whole library", async () => {
+    vi.stubEnv("ADMIN_USERNAMES", `someone, ${intruder.username}`);
+    try {
+      const response = await as(intruder).post("/api/knowledge/reindex");
+      expect(response.status).toBe(200);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+it("requires signing in", async () => {
+  const response = await request(app).get(`/api/conversations/detail/${conversation.id}`);
+  expect(response.status).toBe(401);
+});
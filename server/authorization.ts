@@ -0,0 +1,41 @@
+import type { Attachment, Calculation, Conversation, Message, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Ownership checks for conversation data. Each helper returns undefined both
+// when the record is missing and when it belongs to someone else, so routes
+// answer 404 in either case and never reveal that another user's id exists.
+
+export function canAccessConversation(user: User, conversation: Conversation): boolean {
+  return conversation.userId === user.id;
+}
+
+export async function findOwnedConversation(user: User, id: number): Promise<Conversation | undefined> {
+  if (!Number.isInteger(id)) return undefined;
+
+  const conversation = await storage.getConversationRecord(id);
+  return conversation && canAccessConversation(user, conversation) ? conversation : undefined;
+}
+
+export async function findOwnedMessage(user: User, id: number): Promise<Message | undefined> {
+  if (!Number.isInteger(id)) return undefined;
+
+  const message = await storage.getMessage(id);
+  if (!message) return undefined;
+
+  const conversation = await findOwnedConversation(user, message.conversationId);
+  return conversation ? message : undefined;
+}
+
+export async function findOwnedAttachment(user: User, id: number): Promise<Attachment | undefined> {
+  if (!Number.isInteger(id)) return undefined;
+
+  const [attachment] = await storage.getAttachments([id]);
+  return attachment?.userId === user.id ? attachment : undefined;
+}
+
+export async function findOwnedCalculation(user: User, id: number): Promise<Calculation | undefined> {
+  if (!Number.isInteger(id)) return undefined;
+
+  const calculation = await storage.getCalculation(id);
+  return calculation?.userId === user.id ? calculation : undefined;
+}
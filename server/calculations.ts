@@ -0,0 +1,35 @@
+import type { Calculation } from "@shared/schema";
+import { CALCULATORS, type CalculationType } from "@shared/calculators";
+import { storage } from "./storage";
+
+export interface CalculationOwner {
+  userId: number;
+  // Set for runs the assistant makes during a chat
+  conversationId?: number;
+  toolCallId?: string;
+}
+
+export class CalculationInputError extends Error {}
+
+// Validates the inputs, runs the calculator and saves the run to the user's
+// history. The stored inputs have the schema's defaults filled in, so a
+// re-run gives the same answer until the tax tables change.
+export async function runCalculation(
+  type: CalculationType,
+  inputs: unknown,
+  owner: CalculationOwner
+): Promise<Calculation> {
+  const run = CALCULATORS[type].run(inputs);
+  if (!run.success) {
+    throw new CalculationInputError(run.error.errors[0].message);
+  }
+
+  return await storage.createCalculation({
+    userId: owner.userId,
+    type,
+    inputs: run.inputs,
+    results: { ...run.results },
+    conversationId: owner.conversationId ?? null,
+    toolCallId: owner.toolCallId ?? null,
+  });
+}
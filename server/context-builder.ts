@@ -0,0 +1,123 @@
+import type { ContextReport, Message } from "@shared/schema";
+import { SYSTEM_PROMPT } from "./ai-service";
+import { getProvider, type ChatMessage } from "./providers";
+import { findCatalogModel } from "./model-catalog";
+import { envInt } from "./util";
+
+// Used when a model does not advertise its context length
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+export interface ContextOptions {
+  model: string;
+  // New prompt, not yet part of history
+  query: string;
+  // Earlier messages of the conversation, oldest first
+  history: Message[];
+  // Running summary of older messages, sent only when some history is cut
+  summary?: string | null;
+  // Knowledge base passages for the query, sent just before it
+  knowledge?: string;
+  // Tokens kept free for the reply; defaults to CONTEXT_REPLY_RESERVE_TOKENS or 2000
+  replyReserveTokens?: number;
+  // Optional hard cap on prompt size (e.g. for cost), below the model's limit
+  maxPromptTokens?: number;
+}
+
+export interface BuiltContext {
+  conversationHistory: ChatMessage[];
+  report: ContextReport;
+}
+
+// Picks the history to send with a prompt. The system prompt, the new query,
+// the conversation summary, knowledge base passages and pinned messages
+// always go in; the remaining budget is filled with the newest messages
+// first, stopping at the first one that does not fit so the history never
+// has holes in it.
+export function buildContext(options: ContextOptions): BuiltContext {
+  const { model, query, history, summary, knowledge } = options;
+  const provider = getProvider(model);
+  const count = (messages: ChatMessage[]) => provider.countTokens(messages, model);
+  // A tool message stands for two turns: the assistant's call and its result
+  const toChat = (message: Message): ChatMessage[] => {
+    if (message.role === "tool" && message.toolCall) {
+      const { id, name, arguments: args } = message.toolCall;
+      return [
+        { role: "assistant", content: "", toolCalls: [{ id, name, arguments: args }] },
+        { role: "tool", content: message.content, toolCallId: id, toolName: name },
+      ];
+    }
+    return [{ role: message.role as ChatMessage["role"], content: message.content }];
+  };
+
+  const contextLength = findCatalogModel(model)?.contextLength || DEFAULT_CONTEXT_LENGTH;
+  const replyReserve = options.replyReserveTokens ?? envInt("CONTEXT_REPLY_RESERVE_TOKENS") ?? 2000;
+  const maxPrompt = options.maxPromptTokens ?? envInt("CONTEXT_MAX_PROMPT_TOKENS");
+  const budgetTokens = Math.max(Math.min(contextLength - replyReserve, maxPrompt ?? Infinity), 0);
+
+  const summaryMessage: ChatMessage | undefined = summary
+    ? { role: "system", content: `Summary of the earlier conversation:\n${summary}` }
+    : undefined;
+
+  let promptTokens = count([
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: query },
+  ]);
+  if (summaryMessage) {
+    promptTokens += count([summaryMessage]);
+  }
+
+  const knowledgeMessage: ChatMessage | undefined = knowledge
+    ? { role: "system", content: knowledge }
+    : undefined;
+  if (knowledgeMessage) {
+    promptTokens += count([knowledgeMessage]);
+  }
+
+  const included = new Set<number>();
+  for (const message of history) {
+    if (message.pinned || message.role === "system") {
+      included.add(message.id);
+      promptTokens += count(toChat(message));
+    }
+  }
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (included.has(message.id)) continue;
+
+    const tokens = count(toChat(message));
+    if (promptTokens + tokens > budgetTokens) break;
+
+    included.add(message.id);
+    promptTokens += tokens;
+  }
+
+  const kept = history.filter(message => included.has(message.id));
+  const truncatedMessageIds = history
+    .filter(message => !included.has(message.id))
+    .map(message => message.id);
+
+  // With nothing cut, the summary would only repeat what the history says
+  const conversationHistory = kept.flatMap(toChat);
+  const summaryIncluded = !!summaryMessage && truncatedMessageIds.length > 0;
+  if (summaryIncluded) {
+    conversationHistory.unshift(summaryMessage);
+  } else if (summaryMessage) {
+    promptTokens -= count([summaryMessage]);
+  }
+  if (knowledgeMessage) {
+    conversationHistory.push(knowledgeMessage);
+  }
+
+  return {
+    conversationHistory,
+    report: {
+      budgetTokens,
+      promptTokens,
+      includedMessages: kept.length,
+      truncatedMessages: truncatedMessageIds.length,
+      truncatedMessageIds,
+      summaryIncluded,
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { createHash } from "crypto";
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+import type { EmbeddingProvider } from "./types";
+
+// Fallback embeddings for when no embedding model can be run: words and
+// word pairs are hashed into a fixed number of buckets. There is no model to
+// download and no network call, so it works anywhere, but it only matches
+// shared wording, not meaning. Use it for offline development, not as the
+// knowledge base's real search.
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+  readonly model = "hashed";
+
+  private vector(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    // Latin letters with accents count as letters, for French documents
+    const words = text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f]+/).filter(Boolean);
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const hash = createHash("md5").update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % EMBEDDING_DIMENSIONS;
+      // A second hash bit picks the sign so collisions tend to cancel out
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+
+    // Dampen repeated words, then scale to unit length for cosine distance
+    const damped = vector.map(value => Math.sign(value) * Math.log1p(Math.abs(value)));
+    const norm = Math.hypot(...damped);
+    return norm > 0 ? damped.map(value => value / norm) : damped;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vector(text));
+  }
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { withRetry } from "../providers";
+import { HashedEmbeddingProvider } from "./hashed";
+import { OpenAIEmbeddingProvider } from "./openai";
+import type { EmbeddingProvider } from "./types";
+
+export type { EmbeddingProvider } from "./types";
+
+// Shape of the EMBEDDING_PROVIDER environment variable, a JSON object such as
+// { "type": "openai", "model": "text-embedding-3-small" },
+// { "type": "openai-compatible", "baseUrl": "http://gpu-box:11434/v1", "model": "nomic-embed-text" }
+// or { "type": "hashed" }, the offline fallback
+const embeddingConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("openai"),
+    model: z.string().min(1).default("text-embedding-3-small"),
+    apiKey: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("openai-compatible"),
+    baseUrl: z.string().url(),
+    model: z.string().min(1),
+    apiKey: z.string().optional(),
+  }),
+  z.object({ type: z.literal("hashed") }),
+]);
+
+export type EmbeddingConfig = z.infer<typeof embeddingConfigSchema>;
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.type) {
+    case "openai":
+      return new OpenAIEmbeddingProvider({ model: config.model, apiKey: config.apiKey });
+    case "openai-compatible":
+      return new OpenAIEmbeddingProvider({ model: config.model, apiKey: config.apiKey, baseURL: config.baseUrl });
+    case "hashed":
+      console.warn("Using the hashed fallback embeddings: the knowledge base will match shared wording, not meaning");
+      return new HashedEmbeddingProvider();
+  }
+}
+
+// The local default: nomic-embed-text on an OpenAI-compatible server on this
+// machine, e.g. after `ollama pull nomic-embed-text`
+export const LOCAL_EMBEDDING_CONFIG: EmbeddingConfig = {
+  type: "openai-compatible",
+  baseUrl: "http://localhost:11434/v1",
+  model: "nomic-embed-text",
+};
+
+// Without EMBEDDING_PROVIDER, use OpenAI when there is a key and the local
+// embedding server otherwise. The hashed fallback is only used when chosen.
+function defaultEmbeddingConfig(env: NodeJS.ProcessEnv): EmbeddingConfig {
+  return env.OPENAI_API_KEY ? { type: "openai", model: "text-embedding-3-small" } : LOCAL_EMBEDDING_CONFIG;
+}
+
+let provider: EmbeddingProvider | undefined;
+
+export function embeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  if (!provider) {
+    const config = env.EMBEDDING_PROVIDER
+      ? embeddingConfigSchema.parse(JSON.parse(env.EMBEDDING_PROVIDER))
+      : defaultEmbeddingConfig(env);
+    provider = createEmbeddingProvider(config);
+  }
+  return provider;
+}
+
+// Embeds texts with the configured provider, retrying transient failures
+// until the signal, if any, is aborted
+export async function embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  const current = embeddingProvider();
+  return await withRetry(() => current.embed(texts, signal), { label: `${current.model} embedding`, signal });
+}
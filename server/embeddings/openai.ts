@@ -0,0 +1,80 @@
+import OpenAI from "openai";
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+import { ProviderError, parseRetryAfter } from "../providers/errors";
+import type { EmbeddingProvider } from "./types";
+
+export interface OpenAIEmbeddingOptions {
+  model: string;
+  apiKey?: string;
+  // For OpenAI-compatible servers, e.g. Ollama's http://localhost:11434/v1
+  baseURL?: string;
+}
+
+// Inputs per request, well under the API's limit
+const BATCH_SIZE = 64;
+
+// OpenAI's embeddings API, or any server that speaks it. OpenAI's text-embedding-3
+// models shorten their vectors to EMBEDDING_DIMENSIONS on request; other
+// servers must run a model of that size (e.g. nomic-embed-text).
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private readonly options: OpenAIEmbeddingOptions;
+  private client?: OpenAI;
+
+  constructor(options: OpenAIEmbeddingOptions) {
+    this.options = options;
+    this.model = `${options.baseURL ? "openai-compatible" : "openai"}:${options.model}`;
+  }
+
+  // Created on first use so that configuring the provider never requires a key
+  private getClient(): OpenAI {
+    if (!this.client) {
+      // Local servers usually ignore the key, but the client insists on one
+      const apiKey = this.options.apiKey ?? process.env.OPENAI_API_KEY ?? (this.options.baseURL ? "unused" : undefined);
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY must be set");
+      }
+      this.client = new OpenAI({ apiKey, baseURL: this.options.baseURL, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  private async embedBatch(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    let response;
+    try {
+      response = await this.getClient().embeddings.create({
+        model: this.options.model,
+        input: texts,
+        // Only the text-embedding-3 models can be shortened
+        dimensions: this.options.model.startsWith("text-embedding-3") ? EMBEDDING_DIMENSIONS : undefined,
+      }, { signal });
+    } catch (error) {
+      if (error instanceof OpenAI.APIConnectionError) {
+        throw new ProviderError(this.model, error.message, { retryable: true, cause: error });
+      }
+      if (error instanceof OpenAI.APIError) {
+        throw new ProviderError(this.model, error.message, {
+          status: error.status,
+          retryAfterMs: parseRetryAfter(error.headers?.get("retry-after")),
+          cause: error,
+        });
+      }
+      throw error;
+    }
+
+    const vectors = [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    const wrongSize = vectors.find(vector => vector.length !== EMBEDDING_DIMENSIONS);
+    if (wrongSize) {
+      throw new Error(`${this.model} returns ${wrongSize.length}-dimensional embeddings; the knowledge base stores ${EMBEDDING_DIMENSIONS}`);
+    }
+    return vectors;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      vectors.push(...await this.embedBatch(texts.slice(i, i + BATCH_SIZE), signal));
+    }
+    return vectors;
+  }
+}
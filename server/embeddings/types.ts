@@ -0,0 +1,10 @@
+// Every embedding backend implements this. The configured provider is
+// chosen in ./index.ts; all of them return EMBEDDING_DIMENSIONS numbers per
+// text so their vectors fit the knowledge base's column.
+export interface EmbeddingProvider {
+  // Stored with every vector, e.g. "openai:text-embedding-3-small". Vectors
+  // from different models cannot be compared.
+  readonly model: string;
+  // Aborting the signal cancels the request
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
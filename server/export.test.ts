@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import type { ConversationWithMessages } from "@shared/schema";
+import { exportConversation } from "./export";
+
+const createdAt = new Date("2024-03-01T12:00:00Z");
+const message = {
+  conversationId: 10, toolCall: null, attachmentIds: null, sources: null, promptTokens: null, completionTokens: null,
+  latencyMs: null, finishReason: null, providerRequestId: null, status: null, pinned: false, createdAt,
+};
+const conversation = {
+  id: 10, title: "Налоги и Ελληνικά", userId: 1, model: "fake", temperature: 0.7, maxOutputTokens: 2000, topP: 1,
+  summary: null, summaryThroughMessageId: null, summaryUpdatedAt: null, activeLeafId: 101,
+  importSource: null, importKey: null, createdAt, updatedAt: createdAt,
+  messages: [
+    { ...message, id: 100, role: "user", content: "Сколько платить себе? Tiếng Việt", model: null, parentId: null },
+    { ...message, id: 101, role: "assistant", content: "## Ответ\n**Зарплата** и дивиденды\n```\nставка = 0,15\n```", model: "fake", parentId: 100 },
+  ],
+  branches: {},
+  attachments: {},
+} as ConversationWithMessages;
+
+describe("PDF export", () => {
+  it("embeds Noto Sans instead of the Latin-1 standard fonts", async () => {
+    const file = await exportConversation(conversation, "pdf");
+    const pdf = file.body.toString("latin1");
+
+    const fonts = Array.from(pdf.matchAll(/\/BaseFont \/\w+\+([\w-]+)/g), match => match[1]);
+    expect(new Set(fonts)).toEqual(new Set(["NotoSans-Regular", "NotoSans-Bold", "NotoSans-Italic", "NotoSansMono-Regular"]));
+    expect(pdf).not.toMatch(/Helvetica|Courier/);
+  });
+});
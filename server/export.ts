@@ -0,0 +1,384 @@
+import { Document, HeadingLevel, Packer, Paragraph, ShadingType, TextRun } from "docx";
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import type { AttachmentInfo, ConversationWithMessages, Message, MessageSource } from "@shared/schema";
+import { findCatalogModel } from "./model-catalog";
+
+// Conversation downloads. Every format holds the branch being shown, oldest
+// message first, and is built here without calling out to other services.
+
+export const EXPORT_FORMATS = ["md", "json", "docx", "pdf"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format as ExportFormat);
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pdf: "application/pdf",
+};
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+// The JSON export. Later versions may add fields but not change these.
+export interface ConversationExport {
+  format: "officegpt-conversation";
+  version: 1;
+  exportedAt: string;
+  conversation: {
+    id: number;
+    title: string;
+    model: string;
+    temperature: number;
+    maxOutputTokens: number;
+    topP: number;
+    summary: string | null;
+    createdAt: string;
+    updatedAt: string;
+  };
+  messages: Array<{
+    id: number;
+    parentId: number | null;
+    role: string;
+    content: string;
+    createdAt: string;
+    model: string | null;
+    promptTokens: number | null;
+    completionTokens: number | null;
+    latencyMs: number | null;
+    finishReason: string | null;
+    providerRequestId: string | null;
+    status: string | null;
+    pinned: boolean;
+    toolCall: Message["toolCall"];
+    attachments: Array<Pick<AttachmentInfo, "filename" | "mimeType" | "size">>;
+    sources: MessageSource[] | null;
+  }>;
+}
+
+// Reply text split into the few Markdown constructs the chat renders
+type Block =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  | { type: "bullet"; text: string }
+  | { type: "code"; text: string }
+  | { type: "paragraph"; text: string };
+
+function toBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let code: string[] | null = null;
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: "paragraph", text: paragraph.join("\n") });
+    paragraph = [];
+  };
+
+  for (const line of content.split("\n")) {
+    if (line.trim().startsWith("```")) {
+      if (code) {
+        blocks.push({ type: "code", text: code.join("\n") });
+        code = null;
+      } else {
+        endParagraph();
+        code = [];
+      }
+      continue;
+    }
+    if (code) {
+      code.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    if (heading) {
+      endParagraph();
+      blocks.push({ type: "heading", level: heading[1].length as 1 | 2 | 3, text: heading[2] });
+    } else if (bullet) {
+      endParagraph();
+      blocks.push({ type: "bullet", text: bullet[1] });
+    } else if (line.trim() === "") {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  // An unclosed fence still shows as code
+  if (code) blocks.push({ type: "code", text: code.join("\n") });
+  endParagraph();
+  return blocks;
+}
+
+// **bold** spans; everything else is plain text
+function inlineRuns(text: string): Array<{ text: string; bold: boolean }> {
+  return text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(Boolean)
+    .map(part => part.startsWith("**") && part.endsWith("**") && part.length > 4
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part, bold: false });
+}
+
+const modelName = (model: string | null) => (model ? findCatalogModel(model)?.displayName ?? model : undefined);
+
+const formatTime = (date: Date) => date.toLocaleString("en-CA", { dateStyle: "medium", timeStyle: "short" });
+
+// "You", "Assistant · GPT-4o" or "Tool · calculate_owner_pay", with the time
+function speaker(message: Message): string {
+  const who = message.role === "user"
+    ? "You"
+    : message.role === "tool"
+      ? `Tool · ${message.toolCall?.name ?? "unknown"}`
+      : ["Assistant", modelName(message.model)].filter(Boolean).join(" · ");
+  const status = message.status === "stopped" ? " (stopped)" : message.status === "error" ? " (incomplete)" : "";
+  return `${who}${status} · ${formatTime(message.createdAt)}`;
+}
+
+function attachmentsOf(conversation: ConversationWithMessages, message: Message): AttachmentInfo[] {
+  return (message.attachmentIds ?? [])
+    .map(id => conversation.attachments[id])
+    .filter((attachment): attachment is AttachmentInfo => Boolean(attachment));
+}
+
+const prettyJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Tool results are stored as JSON text; anything else is shown as is
+function formatToolResult(content: string): string {
+  try {
+    return prettyJson(JSON.parse(content));
+  } catch {
+    return content;
+  }
+}
+
+function exportFilename(conversation: ConversationWithMessages, format: ExportFormat): string {
+  const slug = conversation.title
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .slice(0, 60)
+    .toLowerCase();
+  return `${slug || `conversation-${conversation.id}`}.${format}`;
+}
+
+function toMarkdown(conversation: ConversationWithMessages): string {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `_Exported ${formatTime(new Date())} · ${modelName(conversation.model)}_`,
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push("", "---", "", `## ${speaker(message)}`, "");
+
+    if (message.role === "tool" && message.toolCall) {
+      lines.push("Arguments:", "", "```json", prettyJson(message.toolCall.arguments), "```", "");
+      lines.push(message.toolCall.isError ? "Error:" : "Result:", "", "```json", formatToolResult(message.content), "```");
+      continue;
+    }
+
+    lines.push(message.content);
+
+    const attached = attachmentsOf(conversation, message);
+    if (attached.length > 0) {
+      lines.push("", `Attached: ${attached.map(attachment => attachment.filename).join(", ")}`);
+    }
+    if (message.sources?.length) {
+      lines.push("", "Sources:", "");
+      message.sources.forEach(source => lines.push(`- [${source.number}] ${source.title}`));
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function toJson(conversation: ConversationWithMessages): string {
+  const document: ConversationExport = {
+    format: "officegpt-conversation",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      model: conversation.model,
+      temperature: conversation.temperature,
+      maxOutputTokens: conversation.maxOutputTokens,
+      topP: conversation.topP,
+      summary: conversation.summary,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+    },
+    messages: conversation.messages.map(message => ({
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role,
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      model: message.model,
+      promptTokens: message.promptTokens,
+      completionTokens: message.completionTokens,
+      latencyMs: message.latencyMs,
+      finishReason: message.finishReason,
+      providerRequestId: message.providerRequestId,
+      status: message.status,
+      pinned: message.pinned,
+      toolCall: message.toolCall,
+      attachments: attachmentsOf(conversation, message).map(({ filename, mimeType, size }) => ({ filename, mimeType, size })),
+      sources: message.sources,
+    })),
+  };
+  return prettyJson(document);
+}
+
+// Colours of the app's theme, as hex for Word and PDF
+const ACCENT = "10A37F";
+const MUTED = "6B7280";
+const CODE_BACKGROUND = "F3F4F6";
+
+async function toDocx(conversation: ConversationWithMessages): Promise<Buffer> {
+  const headingLevels = { 1: HeadingLevel.HEADING_2, 2: HeadingLevel.HEADING_3, 3: HeadingLevel.HEADING_4 } as const;
+  const runs = (text: string) => inlineRuns(text).map(run => new TextRun({ text: run.text, bold: run.bold }));
+  const code = (text: string) => text.split("\n").map(line => new Paragraph({
+    shading: { type: ShadingType.CLEAR, fill: CODE_BACKGROUND, color: "auto" },
+    spacing: { after: 0 },
+    children: [new TextRun({ text: line, font: "Consolas", size: 18 })],
+  }));
+  const note = (text: string) => new Paragraph({ children: [new TextRun({ text, italics: true, color: MUTED, size: 18 })] });
+
+  const children: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(conversation.title)] }),
+    note(`Exported ${formatTime(new Date())} · ${modelName(conversation.model)}`),
+  ];
+
+  for (const message of conversation.messages) {
+    children.push(new Paragraph({
+      spacing: { before: 320, after: 120 },
+      border: { bottom: { style: "single", size: 4, color: "D1D5DB", space: 4 } },
+      children: [new TextRun({ text: speaker(message), bold: true, color: message.role === "user" ? ACCENT : "111827" })],
+    }));
+
+    if (message.role === "tool" && message.toolCall) {
+      children.push(note("Arguments"), ...code(prettyJson(message.toolCall.arguments)));
+      children.push(note(message.toolCall.isError ? "Error" : "Result"), ...code(formatToolResult(message.content)));
+      continue;
+    }
+
+    for (const block of toBlocks(message.content)) {
+      if (block.type === "heading") {
+        children.push(new Paragraph({ heading: headingLevels[block.level], children: runs(block.text) }));
+      } else if (block.type === "bullet") {
+        children.push(new Paragraph({ bullet: { level: 0 }, children: runs(block.text) }));
+      } else if (block.type === "code") {
+        children.push(...code(block.text));
+      } else {
+        children.push(new Paragraph({ children: runs(block.text.replace(/\n/g, " ")) }));
+      }
+    }
+
+    const attached = attachmentsOf(conversation, message);
+    if (attached.length > 0) {
+      children.push(note(`Attached: ${attached.map(attachment => attachment.filename).join(", ")}`));
+    }
+    message.sources?.forEach(source => children.push(note(`[${source.number}] ${source.title}`)));
+  }
+
+  const document = new Document({
+    title: conversation.title,
+    creator: "OfficeGPT",
+    styles: { default: { document: { run: { font: "Calibri", size: 22 } } } },
+    sections: [{ children }],
+  });
+  return await Packer.toBuffer(document);
+}
+
+// PDFKit's built-in fonts only cover Latin-1, so the PDF embeds Noto Sans
+// (Latin, Greek, Cyrillic and Vietnamese), from the font packages
+const require = createRequire(import.meta.url);
+const PDF_FONTS = {
+  body: "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf",
+  bold: "@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf",
+  italic: "@expo-google-fonts/noto-sans/400Regular_Italic/NotoSans_400Regular_Italic.ttf",
+  mono: "@expo-google-fonts/noto-sans-mono/400Regular/NotoSansMono_400Regular.ttf",
+};
+
+function toPdf(conversation: ConversationWithMessages): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "LETTER", margin: 56, info: { Title: conversation.title, Creator: "OfficeGPT" } });
+    // Only the glyphs used are embedded
+    for (const [name, file] of Object.entries(PDF_FONTS)) {
+      pdf.registerFont(name, require.resolve(file));
+    }
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const muted = (text: string) => pdf.font("italic").fontSize(9).fillColor(`#${MUTED}`).text(text).fillColor("black");
+    const code = (text: string) => pdf.font("mono").fontSize(9).fillColor("black").text(text).moveDown(0.5);
+    const paragraph = (text: string, options: PDFKit.Mixins.TextOptions = {}) => {
+      const parts = inlineRuns(text);
+      pdf.fontSize(11).fillColor("black");
+      parts.forEach((part, i) => {
+        pdf.font(part.bold ? "bold" : "body").text(part.text, { ...options, continued: i < parts.length - 1 });
+      });
+      pdf.moveDown(0.5);
+    };
+    const headingSizes = { 1: 16, 2: 14, 3: 12 } as const;
+
+    pdf.font("bold").fontSize(20).text(conversation.title);
+    muted(`Exported ${formatTime(new Date())} · ${modelName(conversation.model)}`);
+
+    for (const message of conversation.messages) {
+      pdf.moveDown(1);
+      pdf.font("bold").fontSize(11).fillColor(message.role === "user" ? `#${ACCENT}` : "black").text(speaker(message));
+      pdf.fillColor("black").moveDown(0.3);
+
+      if (message.role === "tool" && message.toolCall) {
+        muted("Arguments");
+        code(prettyJson(message.toolCall.arguments));
+        muted(message.toolCall.isError ? "Error" : "Result");
+        code(formatToolResult(message.content));
+        continue;
+      }
+
+      for (const block of toBlocks(message.content)) {
+        if (block.type === "heading") {
+          pdf.font("bold").fontSize(headingSizes[block.level]).text(block.text).moveDown(0.3);
+        } else if (block.type === "bullet") {
+          paragraph(`•  ${block.text}`, { indent: 12 });
+        } else if (block.type === "code") {
+          code(block.text);
+        } else {
+          paragraph(block.text);
+        }
+      }
+
+      const attached = attachmentsOf(conversation, message);
+      if (attached.length > 0) {
+        muted(`Attached: ${attached.map(attachment => attachment.filename).join(", ")}`);
+      }
+      message.sources?.forEach(source => muted(`[${source.number}] ${source.title}`));
+    }
+
+    pdf.end();
+  });
+}
+
+export async function exportConversation(conversation: ConversationWithMessages, format: ExportFormat): Promise<ExportedFile> {
+  const body = format === "md"
+    ? Buffer.from(toMarkdown(conversation), "utf8")
+    : format === "json"
+      ? Buffer.from(toJson(conversation), "utf8")
+      : format === "docx"
+        ? await toDocx(conversation)
+        : await toPdf(conversation);
+
+  return { filename: exportFilename(conversation, format), contentType: CONTENT_TYPES[format], body };
+}
@@ -0,0 +1,58 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { importConversations } from "./import";
+
+// Imports conversation files for a user from the server, without the upload
+// size limit:
+//   npm run import -- --user alice conversations.json notes.md
+// Exits with 1 when a file could not be read.
+
+const USAGE = "Usage: npm run import -- --user <username> <file> [file...]";
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    options: { user: { type: "string", short: "u" } },
+    allowPositionals: true,
+  });
+  if (!values.user || positionals.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const user = await storage.getUserByUsername(values.user);
+  if (!user) {
+    console.error(`No user named ${values.user}`);
+    return 2;
+  }
+
+  let failed = false;
+  for (const file of positionals) {
+    const name = path.basename(file);
+    try {
+      const report = await importConversations(user.id, name, await readFile(file, "utf8"));
+      console.log(`${name}: imported ${report.imported.length}, skipped ${report.skipped.length}`);
+      for (const item of report.imported) {
+        const leftOut = item.skippedMessages > 0 ? `, ${item.skippedMessages} left out` : "";
+        console.log(`  + ${item.title} (${item.messageCount} messages${leftOut})`);
+      }
+      for (const item of report.skipped) {
+        console.log(`  - ${item.title}: ${item.reason}`);
+      }
+    } catch (error: any) {
+      console.error(`${name}: ${error.message}`);
+      failed = true;
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
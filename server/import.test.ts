@@ -0,0 +1,86 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { importConversations, parseImportFile } from "./import";
+import { storage } from "./storage";
+import { UserInputError } from "./util";
+
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./storage", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./storage")>(),
+  storage: {
+    getImportKeys: vi.fn(async () => []),
+    importConversation: vi.fn(async (conversation: { title: string }) => ({ id: 1, ...conversation })),
+  },
+}));
+
+// Two conversations from ChatGPT's export. "Payroll" has a hidden system
+// prompt and custom instructions, a regenerated first reply and a code run
+// before its last reply.
+const chatGptExport = readFileSync(path.join(import.meta.dirname, "fixtures", "chatgpt-conversations.json"), "utf8");
+
+const transcript = "# Payroll\n\n## You\n\nHow much salary should I take?\n\n## Assistant\n\nIt depends on your income.\n";
+
+describe("parseImportFile", () => {
+  it.each(["notes.md", "notes.markdown", "notes.txt", "NOTES.MD"])("reads %s as a Markdown transcript", (filename) => {
+    const { conversations } = parseImportFile(filename, transcript);
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].messages.map(message => message.role)).toEqual(["user", "assistant"]);
+  });
+
+  it("points ChatGPT .zip exports to the conversations.json inside", () => {
+    expect(() => parseImportFile("chatgpt-export.zip", "PK\u0003\u0004")).toThrow(/conversations\.json/);
+  });
+
+  it.each(["report.pdf", "notes.docx", "notes"])("rejects %s", (filename) => {
+    expect(() => parseImportFile(filename, transcript)).toThrow(UserInputError);
+  });
+});
+
+describe("ChatGPT's conversations.json", () => {
+  const { conversations: [payroll, taxes] } = parseImportFile("conversations.json", chatGptExport);
+
+  it("drops the hidden system and context messages and counts the code run as skipped", () => {
+    expect(payroll.messages.map(message => message.content)).toEqual([
+      "How much salary should I take?",
+      "Take $80,000.",
+      "It depends on your income.",
+      "And dividends?",
+      "Dividends skip CPP contributions.",
+    ]);
+    expect(payroll.skippedMessages).toBe(1);
+  });
+
+  it("keeps both replies to the first prompt as branches and bridges over the code run", () => {
+    expect(payroll.messages.map(message => message.parent)).toEqual([null, 0, 0, 2, 3]);
+  });
+
+  it("shows the branch ending at current_node", () => {
+    expect(payroll.activeLeaf).toBe(4);
+    expect(payroll.model).toBe("gpt-4o-mini");
+    expect(payroll.key).toBe("chatgpt:payroll-1");
+    expect(payroll.updatedAt).toEqual(new Date("2024-03-01T13:00:00Z"));
+  });
+
+  it("reads every conversation in the file", () => {
+    expect(taxes.title).toBe("Quarterly taxes");
+    expect(taxes.messages.map(message => message.role)).toEqual(["user", "assistant"]);
+  });
+});
+
+describe("importConversations", () => {
+  it("skips a conversation the user already imported", async () => {
+    vi.mocked(storage.getImportKeys).mockResolvedValueOnce(["chatgpt:payroll-1"]);
+    const report = await importConversations(7, "conversations.json", chatGptExport);
+
+    expect(storage.getImportKeys).toHaveBeenCalledWith(7, ["chatgpt:payroll-1", "chatgpt:taxes-2"]);
+    expect(report.skipped).toEqual([{ title: "Payroll", reason: "Already imported" }]);
+    expect(report.imported).toEqual([{ conversationId: 1, title: "Quarterly taxes", messageCount: 2, skippedMessages: 0 }]);
+    expect(storage.importConversation).toHaveBeenCalledTimes(1);
+    expect(storage.importConversation).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 7, importSource: "chatgpt", importKey: "chatgpt:taxes-2" }),
+      expect.any(Array),
+      1,
+    );
+  });
+});
@@ -0,0 +1,494 @@
+import { createHash } from "crypto";
+import path from "path";
+import type { ImportReport, ToolCallRecord } from "@shared/schema";
+import { enabledModelId, getModelCatalog } from "./model-catalog";
+import { storage, type ImportedMessage } from "./storage";
+import type { ConversationExport } from "./export";
+import { envInt, UserInputError } from "./util";
+
+// Conversations brought in from other chat apps. Three kinds of file are read:
+// - ChatGPT's conversations.json, every branch of every conversation
+// - JSON: this app's export, { title, messages: [{ role, content, createdAt,
+//   model }] }, or a list of either
+// - Markdown transcripts with "## You" and "## Assistant" headings, as the
+//   Markdown export writes them
+// Each conversation gets an import key, and ones the user already imported
+// are skipped.
+
+// ChatGPT exports of long-time users run to tens of megabytes; the CLI reads
+// files of any size
+export const MAX_IMPORT_BYTES = envInt("IMPORT_MAX_BYTES") ?? 100 * 1024 * 1024;
+
+export type ImportSource = "chatgpt" | "json" | "markdown";
+
+interface ParsedConversation {
+  title: string;
+  source: ImportSource;
+  key: string;
+  model?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ImportedMessage[];
+  // Position of the last message of the branch to show
+  activeLeaf: number;
+  skippedMessages: number;
+}
+
+interface ParsedFile {
+  conversations: ParsedConversation[];
+  skipped: ImportReport["skipped"];
+}
+
+const UNTITLED = "Imported conversation";
+
+const ROLE_ALIASES: Record<string, "user" | "assistant"> = {
+  user: "user",
+  human: "user",
+  you: "user",
+  me: "user",
+  assistant: "assistant",
+  ai: "assistant",
+  bot: "assistant",
+  model: "assistant",
+  chatgpt: "assistant",
+};
+
+// Same title and messages, same key
+function contentKey(source: ImportSource, title: string, messages: ImportedMessage[]): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify([title, messages.map(message => [message.role, message.content])]))
+    .digest("hex");
+  return `${source}:${hash.slice(0, 32)}`;
+}
+
+// ISO strings, or Unix times in seconds or milliseconds
+function toDate(value: unknown): Date | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return new Date(value < 1e11 ? value * 1000 : value);
+  }
+  if (typeof value === "string" && value.trim()) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Gives undated messages their predecessor's time, and the conversation the
+// first and last times when the file has none
+function finish(conversation: Omit<ParsedConversation, "createdAt" | "updatedAt" | "key">, dates: { createdAt?: Date; updatedAt?: Date; key?: string }): ParsedConversation {
+  const { messages } = conversation;
+  let last = dates.createdAt ?? new Date();
+  messages.forEach(message => {
+    if (Number.isNaN(message.createdAt.getTime())) message.createdAt = last;
+    last = message.createdAt;
+  });
+
+  const times = messages.map(message => message.createdAt.getTime());
+  const createdAt = dates.createdAt ?? new Date(Math.min(...times));
+  const updatedAt = dates.updatedAt ?? new Date(Math.max(...times));
+  return {
+    ...conversation,
+    key: dates.key ?? contentKey(conversation.source, conversation.title, messages),
+    createdAt,
+    updatedAt,
+  };
+}
+
+// ChatGPT's export -------------------------------------------------------------
+
+type ChatGptMessage = {
+  author?: { role?: string };
+  content?: { content_type?: string; parts?: unknown[]; text?: string };
+  create_time?: number | null;
+  recipient?: string;
+  metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+};
+
+type ChatGptNode = {
+  message?: ChatGptMessage | null;
+  parent?: string | null;
+  children?: string[];
+};
+
+type ChatGptConversation = {
+  id?: string;
+  conversation_id?: string;
+  title?: string | null;
+  create_time?: number | null;
+  update_time?: number | null;
+  current_node?: string;
+  default_model_slug?: string | null;
+  mapping: Record<string, ChatGptNode>;
+};
+
+const isChatGptExport = (data: unknown): data is ChatGptConversation[] =>
+  Array.isArray(data) && data.length > 0 && data.every(item => isObject(item) && isObject(item.mapping));
+
+// "kept" with the text, "hidden" for what ChatGPT does not show either, or
+// "skipped" for content that cannot be shown here (tool calls and their
+// output, code runs, images without text)
+function readChatGptMessage(message: ChatGptMessage): { kind: "kept"; role: "user" | "assistant"; text: string } | { kind: "hidden" | "skipped" } {
+  const role = message.author?.role;
+  if (role === "system" || message.metadata?.is_visually_hidden_from_conversation) return { kind: "hidden" };
+  if (role !== "user" && role !== "assistant") return { kind: "skipped" };
+  // Assistant messages addressed to a tool are calls, not replies
+  if (role === "assistant" && message.recipient && message.recipient !== "all") return { kind: "skipped" };
+
+  const content = message.content;
+  const type = content?.content_type;
+  if (type === "user_editable_context" || type === "model_editable_context") return { kind: "hidden" };
+  if (type !== "text" && type !== "multimodal_text") return { kind: "skipped" };
+
+  const text = (content?.parts ?? [])
+    .filter((part): part is string => typeof part === "string")
+    .join("\n")
+    .trim();
+  if (!text) return type === "text" ? { kind: "hidden" } : { kind: "skipped" };
+  return { kind: "kept", role, text };
+}
+
+// Walks the tree from its roots. Messages left out are bridged over, so
+// their children hang off the nearest message that was kept.
+function parseChatGptConversation(conversation: ChatGptConversation): ParsedConversation {
+  const { mapping } = conversation;
+  const fallbackTime = toDate(conversation.create_time);
+  const messages: ImportedMessage[] = [];
+  const positions = new Map<string, number>();
+  let skippedMessages = 0;
+
+  const roots = Object.keys(mapping).filter(id => !mapping[id].parent || !(mapping[id].parent! in mapping));
+  const stack: Array<{ id: string; parent: number | null }> = roots.reverse().map(id => ({ id, parent: null }));
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const { id, parent } = stack.pop()!;
+    const node = mapping[id];
+    if (!node || visited.has(id)) continue;
+    visited.add(id);
+
+    let position = parent;
+    if (node.message) {
+      const read = readChatGptMessage(node.message);
+      if (read.kind === "kept") {
+        position = messages.length;
+        positions.set(id, position);
+        messages.push({
+          role: read.role,
+          content: read.text,
+          model: read.role === "assistant" ? node.message.metadata?.model_slug ?? null : null,
+          createdAt: toDate(node.message.create_time) ?? fallbackTime ?? new Date(NaN),
+          parent,
+        });
+      } else if (read.kind === "skipped") {
+        skippedMessages++;
+      }
+    }
+
+    // Pushed in reverse so the first child is taken first
+    const children = node.children ?? [];
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ id: children[i], parent: position });
+    }
+  }
+
+  // The branch ChatGPT was showing, from its last message that was kept
+  let activeLeaf = messages.length - 1;
+  for (let id = conversation.current_node; id && mapping[id]; id = mapping[id].parent ?? undefined) {
+    const position = positions.get(id);
+    if (position !== undefined) {
+      activeLeaf = position;
+      break;
+    }
+  }
+
+  const model = messages[activeLeaf]?.model ?? conversation.default_model_slug ?? undefined;
+  const originalId = conversation.conversation_id ?? conversation.id;
+  return finish({
+    title: conversation.title?.trim() || UNTITLED,
+    source: "chatgpt",
+    model: model ?? undefined,
+    messages,
+    activeLeaf,
+    skippedMessages,
+  }, {
+    createdAt: toDate(conversation.create_time),
+    updatedAt: toDate(conversation.update_time),
+    key: originalId ? `chatgpt:${originalId}` : undefined,
+  });
+}
+
+// JSON -------------------------------------------------------------------------
+
+const isAppExport = (data: unknown): data is ConversationExport =>
+  isObject(data) && data.format === "officegpt-conversation" && Array.isArray(data.messages);
+
+// This app's export keeps its branch, models and token counts. Tool
+// messages come along since they carry their own call.
+function parseAppExport(data: ConversationExport): ParsedConversation {
+  const messages: ImportedMessage[] = [];
+  const positions = new Map<number, number>();
+  let skippedMessages = 0;
+
+  for (const message of data.messages) {
+    const isTool = message.role === "tool" && isObject(message.toolCall);
+    if ((message.role !== "user" && message.role !== "assistant" && !isTool) || typeof message.content !== "string") {
+      skippedMessages++;
+      continue;
+    }
+    const parent = message.parentId !== null && positions.has(message.parentId)
+      ? positions.get(message.parentId)!
+      : messages.length > 0 ? messages.length - 1 : null;
+    positions.set(message.id, messages.length);
+    messages.push({
+      role: message.role,
+      content: message.content,
+      toolCall: isTool ? message.toolCall as ToolCallRecord : null,
+      sources: message.sources ?? null,
+      model: message.model ?? null,
+      promptTokens: message.promptTokens ?? null,
+      completionTokens: message.completionTokens ?? null,
+      latencyMs: message.latencyMs ?? null,
+      finishReason: message.finishReason ?? null,
+      status: message.status ?? null,
+      pinned: message.pinned === true,
+      createdAt: toDate(message.createdAt) ?? new Date(NaN),
+      parent,
+    });
+  }
+
+  const { conversation } = data;
+  return finish({
+    title: conversation?.title?.trim() || UNTITLED,
+    source: "json",
+    model: conversation?.model,
+    messages,
+    activeLeaf: messages.length - 1,
+    skippedMessages,
+  }, {
+    createdAt: toDate(conversation?.createdAt),
+    updatedAt: toDate(conversation?.updatedAt),
+  });
+}
+
+// Message text as a string, or a list of strings or { text } parts
+function messageText(content: unknown): string {
+  if (typeof content === "string") return content.trim();
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === "string" ? part : isObject(part) && typeof part.text === "string" ? part.text : ""))
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+  }
+  return "";
+}
+
+// { title, messages: [{ role, content, createdAt, model }] }; messages form
+// a single thread
+function parseTranscript(data: Record<string, any>, fallbackTitle: string): ParsedConversation {
+  const messages: ImportedMessage[] = [];
+  let skippedMessages = 0;
+
+  for (const item of data.messages as unknown[]) {
+    const message = isObject(item) ? item : {};
+    const role = ROLE_ALIASES[String(message.role ?? message.author ?? "").toLowerCase()];
+    const text = messageText(message.content ?? message.text);
+    if (!role || !text) {
+      // System prompts are not part of the chat here either
+      if (message.role !== "system") skippedMessages++;
+      continue;
+    }
+    messages.push({
+      role,
+      content: text,
+      model: role === "assistant" && typeof message.model === "string" ? message.model : null,
+      createdAt: toDate(message.createdAt ?? message.created_at ?? message.timestamp) ?? new Date(NaN),
+      parent: messages.length > 0 ? messages.length - 1 : null,
+    });
+  }
+
+  const title = typeof data.title === "string" && data.title.trim() ? data.title.trim() : fallbackTitle;
+  return finish({
+    title,
+    source: "json",
+    model: typeof data.model === "string" ? data.model : messages.findLast(message => message.model)?.model ?? undefined,
+    messages,
+    activeLeaf: messages.length - 1,
+    skippedMessages,
+  }, {
+    createdAt: toDate(data.createdAt ?? data.created_at),
+    updatedAt: toDate(data.updatedAt ?? data.updated_at),
+  });
+}
+
+function parseJson(data: unknown, fallbackTitle: string): ParsedFile {
+  if (isChatGptExport(data)) {
+    return { conversations: data.map(parseChatGptConversation), skipped: [] };
+  }
+
+  // A bare list of messages is one conversation
+  const isMessage = (item: unknown) => isObject(item) && "role" in item && ("content" in item || "text" in item);
+  const items = Array.isArray(data) && data.length > 0 && data.every(isMessage)
+    ? [{ messages: data }]
+    : Array.isArray(data) ? data : [data];
+
+  const parsed: ParsedFile = { conversations: [], skipped: [] };
+  items.forEach((item, i) => {
+    const title = items.length > 1 ? `${fallbackTitle} (${i + 1})` : fallbackTitle;
+    if (isAppExport(item)) {
+      parsed.conversations.push(parseAppExport(item));
+    } else if (isObject(item) && Array.isArray(item.messages)) {
+      parsed.conversations.push(parseTranscript(item, title));
+    } else {
+      parsed.skipped.push({ title: isObject(item) && typeof item.title === "string" ? item.title : title, reason: "Not a conversation: no messages list" });
+    }
+  });
+  return parsed;
+}
+
+// Markdown ---------------------------------------------------------------------
+
+// "## You", "## Assistant · GPT-4o · Oct 19, 2026, 7:32 p.m." or "### User:"
+const SPEAKER_HEADING = /^#{2,3}\s+(you|user|me|human|assistant|chatgpt|ai|tool)\b(.*)$/i;
+
+// The Markdown export's heading details: a model name and a time
+function headingDetails(rest: string): { model?: string; createdAt?: Date } {
+  // Markers such as "(stopped)" are left out
+  const parts = rest.split("·").map(part => part.replace(/\(.*?\)/g, "").trim()).filter(Boolean);
+  const details: { model?: string; createdAt?: Date } = {};
+  for (const part of parts) {
+    // Only parts with a clock time are read as dates; model names can parse as one
+    const createdAt = /\d:\d\d/.test(part)
+      ? toDate(part.replace(/\b([ap])\.m\./gi, (_, letter: string) => `${letter.toUpperCase()}M`))
+      : undefined;
+    if (createdAt) {
+      details.createdAt = createdAt;
+    } else {
+      details.model = getModelCatalog().find(entry => entry.displayName === part)?.id ?? part;
+    }
+  }
+  return details;
+}
+
+function parseMarkdown(text: string, fallbackTitle: string): ParsedFile {
+  const messages: ImportedMessage[] = [];
+  let title: string | undefined;
+  let skippedMessages = 0;
+  let current: { role: string; model?: string; createdAt?: Date; lines: string[] } | undefined;
+
+  const endMessage = () => {
+    if (!current) return;
+    // The export puts a rule between messages
+    const content = current.lines.join("\n").trim().replace(/\n+-{3,}$/, "").trim();
+    const role = ROLE_ALIASES[current.role];
+    if (role && content) {
+      messages.push({
+        role,
+        content,
+        model: role === "assistant" ? current.model ?? null : null,
+        createdAt: current.createdAt ?? new Date(NaN),
+        parent: messages.length > 0 ? messages.length - 1 : null,
+      });
+    } else if (content) {
+      skippedMessages++;
+    }
+    current = undefined;
+  };
+
+  let inCode = false;
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    if (line.trim().startsWith("```")) inCode = !inCode;
+    const speaker = inCode ? null : line.match(SPEAKER_HEADING);
+    if (speaker) {
+      endMessage();
+      current = { role: speaker[1].toLowerCase(), ...headingDetails(speaker[2].replace(/^:/, "")), lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    } else if (!title && /^#\s+/.test(line)) {
+      title = line.replace(/^#\s+/, "").trim();
+    }
+  }
+  endMessage();
+
+  const conversation = finish({
+    title: title || fallbackTitle,
+    source: "markdown",
+    model: messages.findLast(message => message.model)?.model ?? undefined,
+    messages,
+    activeLeaf: messages.length - 1,
+    skippedMessages,
+  }, {});
+  return { conversations: [conversation], skipped: [] };
+}
+
+// ------------------------------------------------------------------------------
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown", ".txt"];
+
+// Reads a file by its extension: .json, or a Markdown transcript
+export function parseImportFile(filename: string, text: string): ParsedFile {
+  const extension = path.extname(filename).toLowerCase();
+  const fallbackTitle = path.parse(filename).name || UNTITLED;
+
+  if (extension === ".json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new UserInputError(`Could not read ${filename}: it is not valid JSON`);
+    }
+    return parseJson(data, fallbackTitle);
+  }
+  if (MARKDOWN_EXTENSIONS.includes(extension)) {
+    return parseMarkdown(text, fallbackTitle);
+  }
+  if (extension === ".zip") {
+    throw new UserInputError(`Could not read ${filename}: unzip ChatGPT's export and import the conversations.json inside it`);
+  }
+  throw new UserInputError(`Could not read ${filename}: import a .json file or a Markdown transcript (${MARKDOWN_EXTENSIONS.join(", ")})`);
+}
+
+// Saves every conversation in the file the user has not imported before.
+// One that fails to save is reported and the rest go ahead.
+export async function importConversations(userId: number, filename: string, text: string): Promise<ImportReport> {
+  const parsed = parseImportFile(filename, text);
+  const report: ImportReport = { imported: [], skipped: [...parsed.skipped] };
+
+  const seen = new Set(await storage.getImportKeys(userId, parsed.conversations.map(conversation => conversation.key)));
+  for (const conversation of parsed.conversations) {
+    if (conversation.messages.length === 0) {
+      report.skipped.push({ title: conversation.title, reason: "No messages that can be imported" });
+      continue;
+    }
+    if (seen.has(conversation.key)) {
+      report.skipped.push({ title: conversation.title, reason: "Already imported" });
+      continue;
+    }
+    seen.add(conversation.key);
+
+    try {
+      const saved = await storage.importConversation({
+        userId,
+        title: conversation.title,
+        model: enabledModelId(conversation.model),
+        importSource: conversation.source,
+        importKey: conversation.key,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      }, conversation.messages, conversation.activeLeaf);
+      report.imported.push({
+        conversationId: saved.id,
+        title: saved.title,
+        messageCount: conversation.messages.length,
+        skippedMessages: conversation.skippedMessages,
+      });
+    } catch (error: any) {
+      console.error(`Failed to import "${conversation.title}":`, error);
+      report.skipped.push({ title: conversation.title, reason: `Could not be saved: ${error.message}` });
+    }
+  }
+  return report;
+}
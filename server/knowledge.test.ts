@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { embed } = vi.hoisted(() => ({ embed: vi.fn() }));
+
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./storage", () => ({
+  storage: {
+    hasKnowledgeChunks: vi.fn(async () => true),
+    searchKnowledgeChunks: vi.fn(async () => []),
+  },
+}));
+vi.mock("./embeddings", () => ({
+  embed,
+  embeddingProvider: () => ({ model: "nomic-embed-text" }),
+}));
+
+// An embedding server that never answers: the request only ends when aborted
+function hangingEmbed(_texts: string[], signal: AbortSignal): Promise<number[][]> {
+  return new Promise((_resolve, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+}
+
+describe("retrieveSources", () => {
+  beforeEach(() => {
+    vi.stubEnv("KNOWLEDGE_QUERY_TIMEOUT_MS", "50");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("answers without sources when the query embedding times out, then skips searches for a while", async () => {
+    const { retrieveSources } = await import("./knowledge");
+    embed.mockImplementation(hangingEmbed);
+
+    expect(await retrieveSources("How much salary should I take?")).toEqual([]);
+    expect(embed.mock.calls[0][1].aborted).toBe(true);
+
+    expect(await retrieveSources("And dividends?")).toEqual([]);
+    expect(embed).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60_000);
+    embed.mockResolvedValue([[0.1, 0.2]]);
+    expect(await retrieveSources("And dividends?")).toEqual([]);
+    expect(embed).toHaveBeenCalledTimes(2);
+  });
+});
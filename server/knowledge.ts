@@ -0,0 +1,158 @@
+import path from "path";
+import type { KnowledgeDocument, MessageSource } from "@shared/schema";
+import { embed, embeddingProvider } from "./embeddings";
+import { ACCEPTED_EXTENSIONS, attachmentKind, extractAttachmentText, type UploadedFile } from "./attachments";
+import { storage } from "./storage";
+import { envInt, envNumber, UserInputError } from "./util";
+
+// The team knowledge base. Uploaded documents are split into overlapping
+// chunks and embedded once; every prompt is embedded too, and the nearest
+// chunks are sent to the model as numbered sources it can cite.
+
+const CHUNK_CHARS = envInt("KNOWLEDGE_CHUNK_CHARS") ?? 1200;
+const CHUNK_OVERLAP_CHARS = Math.floor(CHUNK_CHARS / 6);
+const TOP_K = envInt("KNOWLEDGE_TOP_K") ?? 4;
+// Cosine distance above which a chunk is too far off to be worth sending
+const MAX_DISTANCE = envNumber("KNOWLEDGE_MAX_DISTANCE") ?? 0.9;
+// How long a prompt waits for its embedding before going on without sources
+const QUERY_TIMEOUT_MS = envInt("KNOWLEDGE_QUERY_TIMEOUT_MS") ?? 3000;
+// After a failed search, prompts skip the knowledge base for this long, so an
+// embedding server that is down does not hold up every reply
+const SEARCH_PAUSE_MS = 60_000;
+// Chunks re-embedded per round when the embedding model changes
+const REINDEX_BATCH = 128;
+
+const SOURCES_PROMPT = "The passages below come from the team's knowledge base and may help answer the next message. When you use one, cite it with its number in square brackets, e.g. [2], right after the statement it supports. Do not cite passages you did not use, and say so when the passages do not cover the question.";
+
+// Cuts text at a paragraph, line or sentence break near `limit`, or at
+// `limit` when there is none in the second half
+function cutPoint(text: string, limit: number): number {
+  if (text.length <= limit) return text.length;
+  for (const separator of ["\n\n", "\n", ". "]) {
+    const at = text.lastIndexOf(separator, limit);
+    if (at > limit / 2) return at + separator.length;
+  }
+  return limit;
+}
+
+// Splits text into chunks of at most CHUNK_CHARS characters, each starting
+// a little before the previous one ended so no passage is cut in two
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < normalized.length) {
+    const end = start + cutPoint(normalized.slice(start), CHUNK_CHARS);
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+
+    // Back up by the overlap, to the start of a word
+    const next = normalized.indexOf(" ", end - CHUNK_OVERLAP_CHARS);
+    start = next > start && next < end ? next + 1 : end;
+  }
+  return chunks;
+}
+
+// Extracts, chunks and embeds a document. Nothing is stored for a file that
+// cannot be read.
+export async function addKnowledgeDocument(userId: number, file: UploadedFile, title?: string): Promise<KnowledgeDocument> {
+  const kind = attachmentKind(file.originalname);
+  if (!kind) {
+    throw new UserInputError(`Unsupported file type. Upload ${ACCEPTED_EXTENSIONS.join(", ")} files.`);
+  }
+
+  let text: string;
+  try {
+    text = await extractAttachmentText(kind, file.buffer);
+  } catch (error) {
+    console.error(`Failed to extract text from ${file.originalname}:`, error);
+    throw new UserInputError(`Could not read ${file.originalname}. The file may be damaged or password protected.`, 422);
+  }
+
+  const chunks = chunkText(text);
+  if (chunks.length === 0) {
+    throw new UserInputError(`No text found in ${file.originalname}. Scanned PDFs need to be run through OCR first.`, 422);
+  }
+
+  const embeddings = await embed(chunks);
+  const embeddingModel = embeddingProvider().model;
+
+  return await storage.createKnowledgeDocument({
+    userId,
+    title: title?.trim() || path.parse(file.originalname).name,
+    filename: file.originalname,
+    kind,
+    size: file.size,
+    chunkCount: chunks.length,
+  }, chunks.map((content, position) => ({ content, position, embedding: embeddings[position], embeddingModel })));
+}
+
+// Re-embeds chunks stored by another embedding model, e.g. after
+// EMBEDDING_PROVIDER changed; until then they are left out of searches.
+// Covers the whole library, or one document when given its id. Returns how
+// many chunks were updated.
+export async function reindexKnowledge(documentId?: number): Promise<number> {
+  const embeddingModel = embeddingProvider().model;
+  let updated = 0;
+
+  for (;;) {
+    const stale = await storage.getStaleKnowledgeChunks(embeddingModel, REINDEX_BATCH, documentId);
+    if (stale.length === 0) return updated;
+
+    const embeddings = await embed(stale.map(chunk => chunk.content));
+    for (let i = 0; i < stale.length; i++) {
+      await storage.updateKnowledgeChunkEmbedding(stale[i].id, embeddings[i], embeddingModel);
+    }
+    updated += stale.length;
+  }
+}
+
+let searchPausedUntil = 0;
+
+// The chunks nearest to the query, numbered from 1. Answers go ahead without
+// sources when the search fails or is slow, e.g. because the embedding API is
+// down, and searches pause for a while after that.
+export async function retrieveSources(query: string): Promise<MessageSource[]> {
+  if (Date.now() < searchPausedUntil) return [];
+  try {
+    // Skips embedding the query while the library is empty
+    const embeddingModel = embeddingProvider().model;
+    if (!await storage.hasKnowledgeChunks(embeddingModel)) return [];
+
+    const [embedding] = await embed([query], AbortSignal.timeout(QUERY_TIMEOUT_MS));
+    const matches = await storage.searchKnowledgeChunks(embedding, embeddingModel, TOP_K);
+    return matches
+      .filter(match => match.distance <= MAX_DISTANCE)
+      .map((match, i) => ({
+        number: i + 1,
+        documentId: match.documentId,
+        chunkId: match.id,
+        title: match.title,
+        snippet: match.content,
+      }));
+  } catch (error) {
+    searchPausedUntil = Date.now() + SEARCH_PAUSE_MS;
+    console.error(`Knowledge base search failed; skipping it for ${SEARCH_PAUSE_MS / 1000}s:`, error);
+    return [];
+  }
+}
+
+// The system message that hands the sources to the model
+export function sourcesPrompt(sources: MessageSource[]): string | undefined {
+  if (sources.length === 0) return undefined;
+  const passages = sources.map(source => `[${source.number}] ${source.title}\n${source.snippet}`);
+  return `${SOURCES_PROMPT}\n\n${passages.join("\n\n")}`;
+}
+
+// The sources a reply actually cites, as [2] or [1, 3], saved with it for
+// the citation links
+export function citedSources(reply: string, sources: MessageSource[]): MessageSource[] | null {
+  const cited = new Set<number>();
+  for (const [, numbers] of Array.from(reply.matchAll(/\[(\d+(?:,\s*\d+)*)\]/g))) {
+    numbers.split(",").forEach(number => cited.add(Number(number)));
+  }
+  const used = sources.filter(source => cited.has(source.number));
+  return used.length > 0 ? used : null;
+}
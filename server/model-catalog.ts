@@ -0,0 +1,157 @@
+import { z } from "zod";
+import type { CatalogModel } from "@shared/schema";
+import { listModels, resolveProvider } from "./providers";
+
+// Shape of one MODEL_CATALOG entry. Entries are merged by id over the
+// built-in catalog, so { "id": "gpt-3.5-turbo", "enabled": false } hides a
+// model and a new id adds one (it still needs a provider that serves it).
+const catalogEntrySchema = z.object({
+  id: z.string().min(1),
+  displayName: z.string().min(1).optional(),
+  provider: z.string().min(1).optional(),
+  contextLength: z.number().int().positive().optional(),
+  inputPricePerToken: z.number().nonnegative().optional(),
+  outputPricePerToken: z.number().nonnegative().optional(),
+  capabilities: z.object({ vision: z.boolean(), tools: z.boolean() }).partial().optional(),
+  aliases: z.array(z.string().min(1)).optional(),
+  enabled: z.boolean().optional(),
+});
+
+type CatalogEntry = z.infer<typeof catalogEntrySchema>;
+
+const perMillion = (dollars: number) => dollars / 1_000_000;
+
+const BUILTIN_CATALOG: CatalogEntry[] = [
+  {
+    id: "gpt-4o",
+    displayName: "GPT-4o",
+    inputPricePerToken: perMillion(2.5),
+    outputPricePerToken: perMillion(10),
+    capabilities: { vision: true, tools: true },
+    aliases: ["gpt-4"],
+  },
+  {
+    id: "gpt-4o-mini",
+    displayName: "GPT-4o mini",
+    inputPricePerToken: perMillion(0.15),
+    outputPricePerToken: perMillion(0.6),
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    id: "gpt-3.5-turbo",
+    displayName: "GPT-3.5 Turbo",
+    inputPricePerToken: perMillion(0.5),
+    outputPricePerToken: perMillion(1.5),
+    capabilities: { tools: true },
+  },
+  {
+    id: "gemini-2.5-pro",
+    displayName: "Gemini 2.5 Pro",
+    inputPricePerToken: perMillion(1.25),
+    outputPricePerToken: perMillion(10),
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    id: "gemini-2.5-flash",
+    displayName: "Gemini 2.5 Flash",
+    inputPricePerToken: perMillion(0.3),
+    outputPricePerToken: perMillion(2.5),
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    id: "gemini-2.0-flash",
+    displayName: "Gemini 2.0 Flash",
+    inputPricePerToken: perMillion(0.1),
+    outputPricePerToken: perMillion(0.4),
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    id: "gemini-1.5-pro",
+    displayName: "Gemini 1.5 Pro",
+    inputPricePerToken: perMillion(1.25),
+    outputPricePerToken: perMillion(5),
+    capabilities: { vision: true, tools: true },
+    aliases: ["gemini-pro"],
+  },
+  {
+    id: "gemini-1.5-flash",
+    displayName: "Gemini 1.5 Flash",
+    inputPricePerToken: perMillion(0.075),
+    outputPricePerToken: perMillion(0.3),
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    id: "fake",
+    displayName: "Fake (offline)",
+    inputPricePerToken: 0,
+    outputPricePerToken: 0,
+    capabilities: { tools: true },
+  },
+];
+
+function mergeEntries(entries: CatalogEntry[]): Map<string, CatalogEntry> {
+  const byId = new Map<string, CatalogEntry>();
+  for (const entry of entries) {
+    const existing = byId.get(entry.id);
+    byId.set(entry.id, existing
+      ? { ...existing, ...entry, capabilities: { ...existing.capabilities, ...entry.capabilities } }
+      : entry);
+  }
+  return byId;
+}
+
+// Every model a registered provider serves, described by the built-in
+// catalog and MODEL_CATALOG. Catalog entries no provider serves are dropped.
+export function buildModelCatalog(env: NodeJS.ProcessEnv = process.env): CatalogModel[] {
+  const overrides = env.MODEL_CATALOG
+    ? z.array(catalogEntrySchema).parse(JSON.parse(env.MODEL_CATALOG))
+    : [];
+  const served = listModels();
+
+  const entries = mergeEntries([
+    ...served.map(info => ({ id: info.id, provider: info.provider, contextLength: info.contextLength })),
+    ...BUILTIN_CATALOG,
+    ...overrides,
+  ]);
+
+  return Array.from(entries.values())
+    .filter(entry => resolveProvider(entry.id))
+    .map(entry => ({
+      id: entry.id,
+      displayName: entry.displayName || entry.id,
+      provider: entry.provider || resolveProvider(entry.id)!.id,
+      contextLength: entry.contextLength ?? served.find(info => info.id === entry.id)?.contextLength,
+      inputPricePerToken: entry.inputPricePerToken,
+      outputPricePerToken: entry.outputPricePerToken,
+      capabilities: {
+        vision: entry.capabilities?.vision ?? false,
+        tools: entry.capabilities?.tools ?? false,
+      },
+      aliases: entry.aliases || [],
+      enabled: entry.enabled ?? true,
+    }));
+}
+
+let catalog: CatalogModel[] | undefined;
+
+export function getModelCatalog(): CatalogModel[] {
+  catalog ??= buildModelCatalog();
+  return catalog;
+}
+
+// What the model picker offers
+export function listEnabledModels(): CatalogModel[] {
+  return getModelCatalog().filter(model => model.enabled);
+}
+
+// Looks a model up by id or alias
+export function findCatalogModel(model: string): CatalogModel | undefined {
+  return getModelCatalog().find(entry => entry.id === model || entry.aliases.includes(model));
+}
+
+// The canonical id to send to the provider, or undefined when the model is
+// unknown or hidden
+export function enabledModelId(model: string | undefined): string | undefined {
+  const entry = model ? findCatalogModel(model) : undefined;
+  return entry?.enabled ? entry.id : undefined;
+}
@@ -0,0 +1,35 @@
+// A failed provider call. `status` is the upstream HTTP status, if there was
+// one; `retryAfterMs` comes from the Retry-After header.
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(provider: string, message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? isTransientStatus(options.status);
+  }
+}
+
+// Rate limits, timeouts and server-side failures are worth another attempt
+export function isTransientStatus(status?: number): boolean {
+  return status === 408 || status === 409 || status === 429 || (status !== undefined && status >= 500);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
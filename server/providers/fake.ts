@@ -0,0 +1,76 @@
+import { estimateTokens } from "./tokens";
+import type { ChatMessage, ChatRequest, ChatResult, LLMProvider, ModelInfo, StreamDeltaHandler, ToolCall } from "./types";
+
+// Deterministic, network-free provider for local development and tests.
+// Replies by echoing the last user message, streamed word by word. A prompt
+// of the form "/tool <name> <json arguments>" calls that tool instead.
+export class FakeProvider implements LLMProvider {
+  readonly id = "fake";
+
+  private toolCall(request: ChatRequest): ToolCall | undefined {
+    const last = request.messages[request.messages.length - 1];
+    if (!request.tools?.length || last?.role !== "user") return undefined;
+
+    const match = last.content.match(/^\/tool\s+(\S+)\s*([\s\S]*)$/);
+    if (!match || !request.tools.some(tool => tool.name === match[1])) return undefined;
+
+    let args: Record<string, unknown> = {};
+    try {
+      args = match[2] ? JSON.parse(match[2]) : {};
+    } catch {
+      // Leave bad JSON for the tool's schema check to reject
+    }
+    return { id: `call_fake_${request.messages.length}`, name: match[1], arguments: args };
+  }
+
+  private reply(request: ChatRequest): string {
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role === "tool") {
+      return `Fake reply using ${last.toolName}: ${last.content}`;
+    }
+
+    const lastUser = [...request.messages].reverse().find(msg => msg.role === "user");
+    const history = request.messages.filter(msg => msg.role !== "system").length - 1;
+    return `Fake reply to: ${lastUser?.content ?? ""} (${history} earlier messages)`;
+  }
+
+  supportsModel(model: string): boolean {
+    return model === "fake" || model.startsWith("fake-");
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    request.signal?.throwIfAborted();
+    const toolCall = this.toolCall(request);
+    const content = toolCall ? "" : this.reply(request);
+    const promptTokens = estimateTokens(request.messages);
+    const completionTokens = estimateTokens([{ role: "assistant", content }]);
+    return {
+      content,
+      model: request.model,
+      tokensUsed: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      finishReason: toolCall ? "tool_calls" : "stop",
+      toolCalls: toolCall ? [toolCall] : undefined
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: StreamDeltaHandler): Promise<ChatResult> {
+    const result = await this.chat(request);
+    for (const word of result.content.match(/\S+\s*/g) || []) {
+      // Yield between words so that a cancellation can land mid-reply
+      await new Promise(resolve => setImmediate(resolve));
+      request.signal?.throwIfAborted();
+      onDelta(word);
+    }
+    return result;
+  }
+
+  countTokens(messages: ChatMessage[], _model: string): number {
+    return estimateTokens(messages);
+  }
+
+  listModels(): ModelInfo[] {
+    return [{ id: "fake", provider: this.id, contextLength: 8192 }];
+  }
+}
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProviderError } from "./errors";
+import { GeminiProvider } from "./gemini";
+import type { ChatRequest } from "./types";
+
+const request: ChatRequest = { model: "gemini-2.5-flash", messages: [{ role: "user", content: "Hi" }] };
+const provider = new GeminiProvider({ apiKey: "test" });
+
+// Answers the next fetch with a stream of the given chunks; an Error chunk
+// makes the read fail there
+function streamResponse(chunks: Array<string | Error>) {
+  const encoder = new TextEncoder();
+  let next = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[next++];
+      if (chunk === undefined) controller.close();
+      else if (chunk instanceof Error) controller.error(chunk);
+      else controller.enqueue(encoder.encode(chunk));
+    },
+  });
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+}
+
+const sse = (data: object) => `data: ${JSON.stringify(data)}\n\n`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("Gemini streaming", () => {
+  it("joins the deltas and keeps the usage from the last chunk", async () => {
+    streamResponse([
+      sse({ candidates: [{ content: { parts: [{ text: "Hello" }] } }], responseId: "r1" }),
+      sse({
+        candidates: [{ content: { parts: [{ text: " there" }] }, finishReason: "STOP" }],
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 },
+      }),
+    ]);
+    const deltas: string[] = [];
+    const result = await provider.stream(request, text => deltas.push(text));
+
+    expect(deltas).toEqual(["Hello", " there"]);
+    expect(result).toMatchObject({
+      content: "Hello there",
+      tokensUsed: 5,
+      promptTokens: 3,
+      completionTokens: 2,
+      finishReason: "stop",
+      requestId: "r1",
+    });
+  });
+
+  it("reports a dropped connection as a retryable provider error", async () => {
+    streamResponse([sse({ candidates: [{ content: { parts: [{ text: "Hel" }] } }] }), new TypeError("terminated")]);
+    const error = await provider.stream(request, () => {}).catch(error => error);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it("reports a chunk that is not JSON as a malformed stream chunk", async () => {
+    streamResponse(["data: {\"candidates\": [\n\n"]);
+    const error = await provider.stream(request, () => {}).catch(error => error);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toBe("Gemini API error: malformed stream chunk");
+  });
+});
+
+describe("Gemini tool declarations", () => {
+  it("sends parameters as an OpenAPI schema with upper-case types", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json({ candidates: [{ content: { parts: [{ text: "Done" }] } }] }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await provider.chat({
+      ...request,
+      tools: [{
+        name: "calculate_owner_pay",
+        description: "Compare salary and dividends",
+        parameters: {
+          type: "object",
+          properties: {
+            revenue: { type: "number", minimum: 0, description: "Yearly revenue" },
+            items: { type: "array", items: { type: "string", enum: ["a", "b"] } },
+          },
+          required: ["revenue"],
+          additionalProperties: false,
+        },
+      }],
+    });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    expect(body.tools[0].functionDeclarations[0].parameters).toEqual({
+      type: "OBJECT",
+      properties: {
+        revenue: { type: "NUMBER", minimum: 0, description: "Yearly revenue" },
+        items: { type: "ARRAY", items: { type: "STRING", enum: ["a", "b"] } },
+      },
+      required: ["revenue"],
+    });
+  });
+});
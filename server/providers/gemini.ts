@@ -0,0 +1,300 @@
+import { randomUUID } from "crypto";
+import { estimateTokens } from "./tokens";
+import { ProviderError, parseRetryAfter } from "./errors";
+import type { ChatMessage, ChatRequest, ChatResult, LLMProvider, ModelInfo, StreamDeltaHandler, ToolCall } from "./types";
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+
+const GEMINI_MODELS: ModelInfo[] = [
+  { id: "gemini-2.5-pro", provider: "gemini", contextLength: 1048576 },
+  { id: "gemini-2.5-flash", provider: "gemini", contextLength: 1048576 },
+  { id: "gemini-2.0-flash", provider: "gemini", contextLength: 1048576 },
+  { id: "gemini-1.5-pro", provider: "gemini", contextLength: 2097152 },
+  { id: "gemini-1.5-flash", provider: "gemini", contextLength: 1048576 },
+];
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { name: string; args: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+// A generateContent response, or one chunk of a streamed one
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  responseId?: string;
+}
+
+// The OpenAPI-style schema Gemini takes for function parameters. Keywords
+// other than these (description, enum, required, minimum...) pass through.
+interface GeminiSchema {
+  type?: string;
+  properties?: Record<string, GeminiSchema>;
+  items?: GeminiSchema;
+  [keyword: string]: unknown;
+}
+
+const isSchemaObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Gemini takes upper-case type names and no additionalProperties
+function toGeminiSchema(schema: Record<string, unknown>): GeminiSchema {
+  const { additionalProperties: _additionalProperties, type, properties, items, ...rest } = schema;
+  const geminiSchema: GeminiSchema = { ...rest };
+  if (typeof type === "string") geminiSchema.type = type.toUpperCase();
+  if (isSchemaObject(properties)) {
+    geminiSchema.properties = Object.fromEntries(Object.entries(properties)
+      .filter((entry): entry is [string, Record<string, unknown>] => isSchemaObject(entry[1]))
+      .map(([key, value]) => [key, toGeminiSchema(value)]));
+  }
+  if (isSchemaObject(items)) geminiSchema.items = toGeminiSchema(items);
+  return geminiSchema;
+}
+
+type ResultMetadata = Omit<ChatResult, "content" | "model">;
+
+// The object without its undefined properties, so spreading it keeps the
+// values it leaves out
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
+
+function messageParts(msg: ChatMessage): GeminiPart[] {
+  if (msg.role === "tool") {
+    let result: unknown;
+    try {
+      result = JSON.parse(msg.content);
+    } catch {
+      result = msg.content;
+    }
+    return [{ functionResponse: { name: msg.toolName!, response: { result } } }];
+  }
+
+  const parts: GeminiPart[] = msg.content ? [{ text: msg.content }] : [];
+  for (const call of msg.toolCalls || []) {
+    parts.push({ functionCall: { name: call.name, args: call.arguments } });
+  }
+  return parts;
+}
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+}
+
+// Gemini API integration using fetch (TaxBuddy pattern)
+export class GeminiProvider implements LLMProvider {
+  readonly id = "gemini";
+  private readonly options: GeminiProviderOptions;
+
+  constructor(options: GeminiProviderOptions = {}) {
+    this.options = options;
+  }
+
+  private getApiKey(): string {
+    const apiKey = this.options.apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_KEY;
+
+    if (!apiKey) {
+      throw new Error("Gemini API key not configured");
+    }
+
+    return apiKey;
+  }
+
+  private endpoint(model: string, method: "generateContent" | "streamGenerateContent"): string {
+    // alt=sse makes the streaming method answer with server-sent events
+    const query = method === "streamGenerateContent" ? "alt=sse&" : "";
+    return `${GEMINI_API_BASE}/${encodeURIComponent(model)}:${method}?${query}key=${this.getApiKey()}`;
+  }
+
+  // Gemini takes the system prompt separately and calls the assistant role
+  // "model". Consecutive turns from the same role are merged because the API
+  // expects user and model turns to alternate.
+  private requestBody(request: ChatRequest) {
+    const system = request.messages
+      .filter(msg => msg.role === "system")
+      .map(msg => msg.content)
+      .join("\n\n");
+
+    const contents: GeminiContent[] = [];
+    for (const msg of request.messages) {
+      if (msg.role === "system") continue;
+
+      // Tool results go back on the user side of the conversation
+      const role = msg.role === "assistant" ? "model" : "user";
+      const parts = messageParts(msg);
+      const previous = contents[contents.length - 1];
+      if (previous?.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return {
+      contents,
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      tools: request.tools?.length
+        ? [{
+            functionDeclarations: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: toGeminiSchema(tool.parameters),
+            })),
+          }]
+        : undefined,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        topP: request.topP,
+      },
+    };
+  }
+
+  // A candidate can be split over several parts; join all of their text
+  private candidateText(data: GeminiResponse): string {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || "").join("");
+  }
+
+  // Gemini does not give function calls ids, so make some up
+  private candidateToolCalls(data: GeminiResponse): ToolCall[] {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts
+      .filter(part => part.functionCall)
+      .map(part => ({
+        id: `call_${randomUUID()}`,
+        name: part.functionCall!.name,
+        arguments: part.functionCall!.args || {},
+      }));
+  }
+
+  private async post(request: ChatRequest, method: "generateContent" | "streamGenerateContent"): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint(request.model, method), {
+        method: "POST",
+        signal: request.signal,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(this.requestBody(request)),
+      });
+    } catch (error) {
+      // Network failures are transient; aborts are left for the caller to spot
+      if (request.signal?.aborted) throw error;
+      throw new ProviderError(this.id, `Gemini API error: ${(error as Error).message}`, { retryable: true, cause: error });
+    }
+
+    if (!response.ok || !response.body) {
+      throw new ProviderError(this.id, `Gemini API error: ${response.statusText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      });
+    }
+    return response;
+  }
+
+  // Usage, finish reason and response id of a response or stream chunk.
+  // Stream chunks repeat the running usage, so the last one has the totals.
+  private resultMetadata(data: GeminiResponse): ResultMetadata {
+    const usage = data.usageMetadata;
+    return {
+      tokensUsed: usage?.totalTokenCount,
+      promptTokens: usage?.promptTokenCount,
+      completionTokens: usage?.candidatesTokenCount,
+      finishReason: data.candidates?.[0]?.finishReason?.toLowerCase(),
+      requestId: data.responseId,
+    };
+  }
+
+  supportsModel(model: string): boolean {
+    return model.toLowerCase().startsWith("gemini");
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const geminiResponse = await this.post(request, "generateContent");
+    const geminiData: GeminiResponse = await geminiResponse.json();
+    const toolCalls = this.candidateToolCalls(geminiData);
+
+    return {
+      content: this.candidateText(geminiData) || (toolCalls.length ? "" : "No response generated"),
+      model: request.model,
+      ...this.resultMetadata(geminiData),
+      toolCalls: toolCalls.length ? toolCalls : undefined
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: StreamDeltaHandler): Promise<ChatResult> {
+    const geminiResponse = await this.post(request, "streamGenerateContent");
+    const reader = geminiResponse.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    let metadata: ResultMetadata = {};
+    const toolCalls: ToolCall[] = [];
+
+    while (true) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        // The connection dropped mid-stream; aborts are left for the caller to spot
+        if (request.signal?.aborted) throw error;
+        throw new ProviderError(this.id, `Gemini API error: ${(error as Error).message}`, { retryable: true, cause: error });
+      }
+      const { done, value } = result;
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+
+        let chunk: GeminiResponse;
+        try {
+          chunk = JSON.parse(line.slice(5));
+        } catch (error) {
+          throw new ProviderError(this.id, "Gemini API error: malformed stream chunk", { cause: error });
+        }
+        const text = this.candidateText(chunk);
+        if (text) {
+          content += text;
+          onDelta(text);
+        }
+        toolCalls.push(...this.candidateToolCalls(chunk));
+        // Keep earlier values that a later chunk leaves out
+        metadata = { ...metadata, ...definedOnly(this.resultMetadata(chunk)) };
+      }
+    }
+
+    return {
+      content: content || (toolCalls.length ? "" : "No response generated"),
+      model: request.model,
+      ...metadata,
+      toolCalls: toolCalls.length ? toolCalls : undefined
+    };
+  }
+
+  countTokens(messages: ChatMessage[], _model: string): number {
+    return estimateTokens(messages);
+  }
+
+  listModels(): ModelInfo[] {
+    return GEMINI_MODELS;
+  }
+}
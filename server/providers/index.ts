@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { OpenAIProvider } from "./openai";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import { GeminiProvider } from "./gemini";
+import { FakeProvider } from "./fake";
+import type { LLMProvider, ModelInfo } from "./types";
+
+export { ProviderError } from "./errors";
+export { withRetry, retryPolicyFromEnv, type RetryPolicy } from "./retry";
+export type {
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  ChatRole,
+  LLMProvider,
+  ModelInfo,
+  StreamDeltaHandler,
+  ToolCall,
+  ToolDefinition
+} from "./types";
+
+// Shape of the LLM_PROVIDERS environment variable, a JSON array such as
+// [{ "type": "openai" }, { "type": "openai-compatible", "id": "ollama",
+//    "baseUrl": "http://gpu-box:11434/v1", "models": ["llama3.1:8b"] }]
+const providerConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("openai"), apiKey: z.string().optional() }),
+  z.object({ type: z.literal("gemini"), apiKey: z.string().optional() }),
+  z.object({
+    type: z.literal("openai-compatible"),
+    id: z.string().min(1),
+    baseUrl: z.string().url(),
+    apiKey: z.string().optional(),
+    models: z.array(z.string().min(1)).min(1),
+    contextLength: z.number().int().positive().optional(),
+  }),
+  z.object({ type: z.literal("fake") }),
+]);
+
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+
+// Registration order matters: the first provider that supports a model wins.
+const providers: LLMProvider[] = [];
+
+export function registerProvider(provider: LLMProvider) {
+  if (providers.some(p => p.id === provider.id)) {
+    throw new Error(`LLM provider "${provider.id}" is already registered`);
+  }
+  providers.push(provider);
+}
+
+export function resolveProvider(model: string): LLMProvider | undefined {
+  return providers.find(provider => provider.supportsModel(model));
+}
+
+export function getProvider(model: string): LLMProvider {
+  const provider = resolveProvider(model);
+  if (!provider) {
+    throw new Error(`No LLM provider configured for model "${model}"`);
+  }
+  return provider;
+}
+
+export function listModels(): ModelInfo[] {
+  return providers.flatMap(provider => provider.listModels());
+}
+
+export function getModelInfo(model: string): ModelInfo | undefined {
+  return resolveProvider(model)?.listModels().find(info => info.id === model);
+}
+
+// AI_FALLBACK_CHAIN lists models to try in order when one keeps failing, e.g.
+// "gpt-4o,gpt-4o-mini,gemini-2.5-flash". Separate several chains with ";".
+// A model's fallbacks are the entries after it in its chain that some
+// registered provider can serve.
+export function fallbackModels(model: string, env: NodeJS.ProcessEnv = process.env): string[] {
+  const chains = (env.AI_FALLBACK_CHAIN || "")
+    .split(";")
+    .map(chain => chain.split(",").map(id => id.trim()).filter(Boolean));
+
+  const chain = chains.find(ids => ids.includes(model));
+  if (!chain) return [];
+
+  return chain
+    .slice(chain.indexOf(model) + 1)
+    .filter(id => id !== model && resolveProvider(id));
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.type) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: config.apiKey });
+    case "gemini":
+      return new GeminiProvider({ apiKey: config.apiKey });
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({
+        id: config.id,
+        baseURL: config.baseUrl,
+        apiKey: config.apiKey,
+        models: config.models,
+        contextLength: config.contextLength,
+      });
+    case "fake":
+      return new FakeProvider();
+  }
+}
+
+// Without LLM_PROVIDERS, register whichever hosted providers have a key, plus
+// the fake provider outside production.
+function defaultProviderConfigs(env: NodeJS.ProcessEnv): ProviderConfig[] {
+  const configs: ProviderConfig[] = [];
+  if (env.OPENAI_API_KEY) configs.push({ type: "openai" });
+  if (env.GEMINI_API_KEY || env.GOOGLE_AI_KEY) configs.push({ type: "gemini" });
+  if (env.NODE_ENV !== "production") configs.push({ type: "fake" });
+  return configs;
+}
+
+export function configureProviders(env: NodeJS.ProcessEnv = process.env) {
+  const configs = env.LLM_PROVIDERS
+    ? z.array(providerConfigSchema).parse(JSON.parse(env.LLM_PROVIDERS))
+    : defaultProviderConfigs(env);
+
+  configs.forEach(config => registerProvider(createProvider(config)));
+}
+
+configureProviders();
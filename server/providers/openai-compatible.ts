@@ -0,0 +1,36 @@
+import { OpenAIProvider } from "./openai";
+import type { ModelInfo } from "./types";
+
+export interface OpenAICompatibleProviderOptions {
+  id: string;
+  baseURL: string;
+  apiKey?: string;
+  models: string[];
+  contextLength?: number;
+}
+
+// Any server that speaks the OpenAI chat completions API: Ollama, llama.cpp,
+// vLLM, LM Studio... Serves exactly the model ids listed in its config.
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  private readonly models: string[];
+  private readonly contextLength?: number;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    super({
+      id: options.id,
+      baseURL: options.baseURL,
+      // Local servers usually ignore the key, but the client insists on one
+      apiKey: options.apiKey || "not-needed",
+    });
+    this.models = options.models;
+    this.contextLength = options.contextLength;
+  }
+
+  supportsModel(model: string): boolean {
+    return this.models.includes(model);
+  }
+
+  listModels(): ModelInfo[] {
+    return this.models.map(id => ({ id, provider: this.id, contextLength: this.contextLength }));
+  }
+}
@@ -0,0 +1,197 @@
+import OpenAI from "openai";
+import { estimateTokens } from "./tokens";
+import { ProviderError, parseRetryAfter } from "./errors";
+import type { ChatMessage, ChatRequest, ChatResult, LLMProvider, ModelInfo, StreamDeltaHandler, ToolCall } from "./types";
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+
+const OPENAI_MODELS: ModelInfo[] = [
+  { id: "gpt-4o", provider: "openai", contextLength: 128000 },
+  { id: "gpt-4o-mini", provider: "openai", contextLength: 128000 },
+  { id: "gpt-3.5-turbo", provider: "openai", contextLength: 16385 },
+];
+
+export interface OpenAIProviderOptions {
+  id?: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+function toOpenAIMessage(message: ChatMessage): OpenAI.ChatCompletionMessageParam {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId!, content: message.content };
+  }
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content } as OpenAI.ChatCompletionMessageParam;
+}
+
+// Tool arguments arrive as a JSON string that the model may have garbled;
+// the tool's own schema check reports that back to the model
+function parseArguments(json: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(json || "{}");
+    return value && typeof value === "object" ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly id: string;
+  protected readonly options: OpenAIProviderOptions;
+  private client?: OpenAI;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.id = options.id || "openai";
+    this.options = options;
+  }
+
+  // Created on first use so that registering the provider never requires a key
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.options.apiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY must be set");
+      }
+      // Retries are handled by withRetry, which can also fall back to other models
+      this.client = new OpenAI({ apiKey, baseURL: this.options.baseURL, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  // Timeouts and dropped connections have no status but are worth retrying
+  protected toProviderError(error: unknown): unknown {
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new ProviderError(this.id, error.message, { retryable: true, cause: error });
+    }
+    if (error instanceof OpenAI.APIError) {
+      return new ProviderError(this.id, error.message, {
+        status: error.status,
+        retryAfterMs: parseRetryAfter(error.headers?.get("retry-after")),
+        cause: error,
+      });
+    }
+    return error;
+  }
+
+  protected requestParams(request: ChatRequest) {
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({
+            type: "function" as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+    };
+  }
+
+  supportsModel(model: string): boolean {
+    return /^(gpt-|o\d|chatgpt-)/.test(model);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    let response;
+    let requestId;
+    try {
+      ({ data: response, request_id: requestId } = await this.getClient().chat.completions.create(
+        this.requestParams(request),
+        { signal: request.signal }
+      ).withResponse());
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    const toolCalls = response.choices[0].message.tool_calls
+      ?.filter(call => call.type === "function")
+      .map(call => ({ id: call.id, name: call.function.name, arguments: parseArguments(call.function.arguments) }));
+
+    return {
+      content: response.choices[0].message.content || (toolCalls?.length ? "" : "No response generated"),
+      model: request.model,
+      tokensUsed: response.usage?.total_tokens,
+      promptTokens: response.usage?.prompt_tokens,
+      completionTokens: response.usage?.completion_tokens,
+      finishReason: response.choices[0].finish_reason ?? undefined,
+      requestId: requestId ?? undefined,
+      toolCalls: toolCalls?.length ? toolCalls : undefined
+    };
+  }
+
+  async stream(request: ChatRequest, onDelta: StreamDeltaHandler): Promise<ChatResult> {
+    let content = "";
+    let usage: OpenAI.CompletionUsage | undefined;
+    let finishReason: string | undefined;
+    let requestId: string | null = null;
+    // Tool calls stream in pieces, keyed by their index
+    const partialCalls: Array<{ id: string; name: string; arguments: string }> = [];
+    try {
+      const { data: stream, request_id } = await this.getClient().chat.completions.create({
+        ...this.requestParams(request),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: request.signal }).withResponse();
+      requestId = request_id;
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          content += text;
+          onDelta(text);
+        }
+        for (const delta of chunk.choices[0]?.delta?.tool_calls || []) {
+          const call = partialCalls[delta.index] ??= { id: "", name: "", arguments: "" };
+          if (delta.id) call.id = delta.id;
+          if (delta.function?.name) call.name += delta.function.name;
+          if (delta.function?.arguments) call.arguments += delta.function.arguments;
+        }
+        if (chunk.choices[0]?.finish_reason) {
+          finishReason = chunk.choices[0].finish_reason;
+        }
+        // The usage block arrives on the final chunk, which has no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    const toolCalls: ToolCall[] = partialCalls
+      .filter(Boolean)
+      .map(call => ({ id: call.id, name: call.name, arguments: parseArguments(call.arguments) }));
+
+    return {
+      content: content || (toolCalls.length ? "" : "No response generated"),
+      model: request.model,
+      tokensUsed: usage?.total_tokens,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens,
+      finishReason,
+      requestId: requestId ?? undefined,
+      toolCalls: toolCalls.length ? toolCalls : undefined
+    };
+  }
+
+  countTokens(messages: ChatMessage[], _model: string): number {
+    return estimateTokens(messages);
+  }
+
+  listModels(): ModelInfo[] {
+    return OPENAI_MODELS;
+  }
+}
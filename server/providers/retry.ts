@@ -0,0 +1,76 @@
+import { ProviderError } from "./errors";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// AI_MAX_RETRIES, AI_RETRY_BASE_DELAY_MS and AI_RETRY_MAX_DELAY_MS override
+// the defaults of 2 retries, starting at 500ms and never waiting over 10s
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  const read = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    maxRetries: read("AI_MAX_RETRIES", 2),
+    baseDelayMs: read("AI_RETRY_BASE_DELAY_MS", 500),
+    maxDelayMs: read("AI_RETRY_MAX_DELAY_MS", 10000),
+  };
+}
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof ProviderError && error.retryable;
+}
+
+// Exponential backoff with jitter: a random wait between half and all of
+// base * 2^attempt. A Retry-After from the provider takes precedence.
+export function retryDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Runs `attempt` until it succeeds, fails with a non-transient error, runs
+// out of retries or would have to wait longer than policy.maxDelayMs.
+// `canRetry` lets callers refuse a retry, e.g. once a stream has started.
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  options: { policy?: RetryPolicy; signal?: AbortSignal; canRetry?: () => boolean; label?: string } = {}
+): Promise<T> {
+  const policy = options.policy ?? retryPolicyFromEnv();
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (options.signal?.aborted || retry >= policy.maxRetries || !isRetryable(error)) throw error;
+      if (options.canRetry && !options.canRetry()) throw error;
+
+      const delay = retryDelay(policy, retry, error);
+      if (delay > policy.maxDelayMs) throw error;
+
+      console.warn(`${options.label ?? "AI call"} failed (${(error as Error).message}); retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import type { ChatMessage } from "./types";
+
+// Rough token estimate (~4 characters per token for English text) plus a
+// small per-message overhead for role markers. Good enough for budgeting
+// without shipping a tokenizer for every provider.
+export function estimateTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (total, message) => {
+      const calls = message.toolCalls ? JSON.stringify(message.toolCalls) : "";
+      return total + Math.ceil((message.content.length + calls.length) / 4) + 4;
+    },
+    0,
+  );
+}
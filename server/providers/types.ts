@@ -0,0 +1,68 @@
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+// A function call requested by the model
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Assistant turns that ask for tools
+  toolCalls?: ToolCall[];
+  // Tool turns: the call this message answers
+  toolCallId?: string;
+  toolName?: string;
+}
+
+// A tool the model may call; `parameters` is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  tools?: ToolDefinition[];
+  // Aborting stops the provider call; the provider then rejects
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  // Lowercased, e.g. "stop", "length" or "max_tokens"
+  finishReason?: string;
+  requestId?: string;
+  // Set when the model wants tools run before it answers
+  toolCalls?: ToolCall[];
+}
+
+export type StreamDeltaHandler = (text: string) => void;
+
+export interface ModelInfo {
+  id: string;
+  provider: string;
+  contextLength?: number;
+}
+
+// Every LLM backend implements this. Providers are registered in
+// ./index.ts and picked per request from the model id.
+export interface LLMProvider {
+  readonly id: string;
+  supportsModel(model: string): boolean;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  stream(request: ChatRequest, onDelta: StreamDeltaHandler): Promise<ChatResult>;
+  countTokens(messages: ChatMessage[], model: string): number;
+  listModels(): ModelInfo[];
+}
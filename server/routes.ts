@@ -1,15 +1,165 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertConversationSchema, insertMessageSchema } from "@shared/schema";
-import { aiService } from "./ai-service";
+import { conversationSettingsSchema, insertConversationSchema, insertMessageSchema, type Conversation, type Message, type MessageSource } from "@shared/schema";
+import { buildMessageTree, latestLeafId, pathTo } from "@shared/message-tree";
+import { isCalculationType } from "@shared/calculators";
+import { aiService, AIServiceError, GenerationAbortedError, type AnalysisResult, type ToolStep } from "./ai-service";
+import { enabledModelId, findCatalogModel, listEnabledModels } from "./model-catalog";
+import { createToolRunner } from "./tools";
+import { CalculationInputError, runCalculation } from "./calculations";
+import {
+  claimAttachments,
+  deleteAttachmentFiles,
+  MAX_ATTACHMENT_BYTES,
+  saveAttachment,
+  toAttachmentInfo,
+  withAttachmentText,
+} from "./attachments";
+import { addKnowledgeDocument, citedSources, reindexKnowledge, retrieveSources, sourcesPrompt } from "./knowledge";
+import { searchConversations, searchQuerySchema } from "./search";
+import { EXPORT_FORMATS, exportConversation, isExportFormat } from "./export";
+import { importConversations, MAX_IMPORT_BYTES } from "./import";
+import { UserInputError } from "./util";
+import { buildContext } from "./context-builder";
+import { scheduleSummaryRefresh } from "./summarizer";
+import { setupAuth, requireAuth, isAdmin } from "./auth";
+import { canAccessConversation, findOwnedAttachment, findOwnedCalculation, findOwnedConversation, findOwnedMessage } from "./authorization";
+
+// AI failures carry their own status, e.g. 429 once retries are exhausted
+function errorStatus(error: unknown): number {
+  if (error instanceof CalculationInputError) return 400;
+  if (error instanceof UserInputError) return error.status;
+  return error instanceof AIServiceError ? error.status : 500;
+}
+
+// The conversation's settings, in the shape aiService takes them
+function generationSettings(conversation: Conversation) {
+  return {
+    temperature: conversation.temperature,
+    maxTokens: conversation.maxOutputTokens,
+    topP: conversation.topP,
+  };
+}
+
+// Generation details stored on an assistant reply
+function generationMetadata(result: AnalysisResult) {
+  return {
+    model: result.model,
+    promptTokens: result.promptTokens,
+    completionTokens: result.completionTokens,
+    latencyMs: result.latencyMs,
+    finishReason: result.finishReason,
+    providerRequestId: result.providerRequestId,
+  };
+}
+
+// Tools for one reply, when the model can call them. Every call is saved as
+// a "tool" message as soon as it has run, chained below the prompt; the
+// reply then goes below the last one (see replyParentId).
+function replyTools(options: {
+  user: Express.User;
+  conversationId: number;
+  model: string;
+  promptId: number;
+  signal?: AbortSignal;
+  onSaved?: (message: Message) => void;
+}) {
+  const { user, conversationId, model, signal } = options;
+  let parentId = options.promptId;
+
+  return {
+    tools: findCatalogModel(model)?.capabilities.tools
+      ? createToolRunner({ user, conversationId, signal })
+      : undefined,
+    onToolResult: async ({ call, result }: ToolStep) => {
+      const message = await storage.createMessage({
+        conversationId,
+        role: "tool",
+        content: result.content,
+        toolCall: { ...call, isError: result.isError },
+        parentId,
+      });
+      await storage.setActiveLeaf(conversationId, message.id);
+      parentId = message.id;
+      options.onSaved?.(message);
+    },
+    replyParentId: () => parentId,
+  };
+}
+
+// Answers a prompt that is already saved, with `history` (the messages above
+// it on its branch) as context. The reply becomes the active leaf. Callers
+// refresh the summary with the returned context report.
+async function replyTo(user: Express.User, conversation: Conversation, prompt: Message, history: Message[], model: string) {
+  const [query, ...earlier] = await withAttachmentText([prompt, ...history]);
+  const sources = await retrieveSources(prompt.content);
+  const { conversationHistory, report: contextReport } = buildContext({
+    model,
+    query: query.content,
+    history: earlier,
+    summary: conversation.summary,
+    knowledge: sourcesPrompt(sources),
+  });
+
+  const { replyParentId, ...tools } = replyTools({ user, conversationId: conversation.id, model, promptId: prompt.id });
+  const analysisResult = await aiService.analyzeQuery({
+    query: query.content,
+    model,
+    conversationHistory,
+    context: "Professional business consultation",
+    ...generationSettings(conversation),
+    ...tools
+  });
+
+  const assistantMessage = await storage.createMessage({
+    conversationId: conversation.id,
+    role: "assistant",
+    content: analysisResult.response,
+    sources: citedSources(analysisResult.response, sources),
+    ...generationMetadata(analysisResult),
+    parentId: replyParentId(),
+  });
+  await storage.setActiveLeaf(conversation.id, assistantMessage.id);
+
+  return { assistantMessage, analysisResult, contextReport };
+}
+
+// Uploads are held in memory only until their text is extracted
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 } });
+const importUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_IMPORT_BYTES, files: 1 } });
+
+// Replies being streamed, by conversation, so that the Stop button can end
+// one while its stream stays open for the saved partial reply. Only replies
+// streamed by this process are here; the client closes its stream itself
+// when the stop route does not find the reply.
+const streamingReplies = new Map<number, AbortController>();
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Create new conversation
-  app.post("/api/conversations", async (req, res) => {
+  // Sessions, login/logout/register and /api/me
+  setupAuth(app);
+
+  // Models the picker offers; hidden models are left out
+  app.get("/api/models", requireAuth, async (_req, res) => {
+    try {
+      res.json(listEnabledModels());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create new conversation for the signed-in user
+  app.post("/api/conversations", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertConversationSchema.parse(req.body);
+      const validatedData = insertConversationSchema.parse({ ...req.body, userId: req.user!.id });
+      if (validatedData.model !== undefined) {
+        const model = enabledModelId(validatedData.model);
+        if (!model) {
+          return res.status(400).json({ message: `Unsupported model: ${validatedData.model}` });
+        }
+        validatedData.model = model;
+      }
       const conversation = await storage.createConversation(validatedData);
       res.json(conversation);
     } catch (error: any) {
@@ -17,10 +167,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all conversations for a user
-  app.get("/api/conversations/:userId", async (req, res) => {
+  // Get all conversations for a user (only ever the signed-in one)
+  app.get("/api/conversations/:userId", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
+      if (userId !== req.user!.id) {
+        return res.status(404).json({ message: "User not found" });
+      }
       const conversations = await storage.getConversationsByUser(userId);
       res.json(conversations);
     } catch (error: any) {
@@ -29,11 +182,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific conversation with messages
-  app.get("/api/conversations/detail/:id", async (req, res) => {
+  app.get("/api/conversations/detail/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const conversation = await storage.getConversation(id);
-      if (!conversation) {
+      if (!conversation || !canAccessConversation(req.user!, conversation)) {
         return res.status(404).json({ message: "Conversation not found" });
       }
       res.json(conversation);
@@ -42,11 +195,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download the conversation's active branch as md, json, docx or pdf
+  app.get("/api/conversations/:id/export", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const format = req.query.format ?? "md";
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ message: `Unsupported format: ${format}. Use ${EXPORT_FORMATS.join(", ")}.` });
+      }
+
+      const conversation = await storage.getConversation(id);
+      if (!conversation || !canAccessConversation(req.user!, conversation)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const file = await exportConversation(conversation, format);
+      res.attachment(file.filename).type(file.contentType).send(file.body);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Import conversations from a ChatGPT export, a JSON transcript or a
+  // Markdown transcript. Conversations imported before are skipped.
+  app.post("/api/import", requireAuth, (req, res) => {
+    importUpload.single("file")(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ message: `Import files can be at most ${Math.round(MAX_IMPORT_BYTES / 1024 / 1024)} MB` });
+        }
+        if (uploadError) throw uploadError;
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const report = await importConversations(req.user!.id, req.file.originalname, req.file.buffer.toString("utf8"));
+        res.status(report.imported.length > 0 ? 201 : 200).json(report);
+      } catch (error: any) {
+        console.error("Import error:", error);
+        res.status(errorStatus(error)).json({ message: error.message });
+      }
+    });
+  });
+
   // Delete conversation
-  app.delete("/api/conversations/:id", async (req, res) => {
+  app.delete("/api/conversations/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      if (!await findOwnedConversation(req.user!, id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const attached = await storage.getAttachmentsByConversation(id);
       await storage.deleteConversation(id);
+      await deleteAttachmentFiles(attached);
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -54,10 +255,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update conversation title
-  app.patch("/api/conversations/:id", async (req, res) => {
+  app.patch("/api/conversations/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { title } = req.body;
+      if (!await findOwnedConversation(req.user!, id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
       await storage.updateConversationTitle(id, title);
       res.json({ success: true });
     } catch (error: any) {
@@ -65,53 +269,479 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Business analysis endpoint (TaxBuddy-style pattern)
-  app.post("/api/analyze-query", async (req, res) => {
+  // Change the conversation's model and generation settings
+  app.put("/api/conversations/:id/settings", requireAuth, async (req, res) => {
     try {
-      const { conversationId, content, model } = req.body;
+      const id = parseInt(req.params.id);
+      const parsed = conversationSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
 
-      if (!conversationId || !content || !model) {
-        return res.status(400).json({ message: "Missing required fields: conversationId, content, model" });
+      const settings = parsed.data;
+      if (settings.model !== undefined) {
+        const model = enabledModelId(settings.model);
+        if (!model) {
+          return res.status(400).json({ message: `Unsupported model: ${settings.model}` });
+        }
+        settings.model = model;
       }
 
-      const convId = parseInt(conversationId);
+      if (!await findOwnedConversation(req.user!, id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      await storage.updateConversationSettings(id, settings);
+      res.json(await storage.getConversationRecord(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Save user message
+  // Edit the running summary that stands in for older messages
+  app.put("/api/conversations/:id/summary", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { summary } = req.body;
+      if (typeof summary !== "string") {
+        return res.status(400).json({ message: "summary must be a string" });
+      }
+      if (!await findOwnedConversation(req.user!, id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      await storage.updateConversationSummary(id, summary.trim() || null);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Pin or unpin a message so it is always kept in the model's context
+  app.patch("/api/messages/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { pinned } = req.body;
+      if (typeof pinned !== "boolean") {
+        return res.status(400).json({ message: "pinned must be a boolean" });
+      }
+      if (!await findOwnedMessage(req.user!, id)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const message = await storage.setMessagePinned(id, pinned);
+      res.json(message);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Generate another version of an assistant reply. The new reply answers the
+  // same user message with the same earlier history, is stored as a sibling
+  // of the existing versions and becomes the active branch.
+  app.post("/api/messages/:id/regenerate", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const target = await findOwnedMessage(req.user!, id);
+      if (!target) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (target.role !== "assistant") {
+        return res.status(400).json({ message: "Only assistant replies can be regenerated" });
+      }
+
+      const requestedModel = req.body.model || target.model;
+      if (!requestedModel) {
+        return res.status(400).json({ message: "Missing required field: model" });
+      }
+      const model = enabledModelId(requestedModel);
+      if (!model) {
+        return res.status(400).json({ message: `Unsupported model: ${requestedModel}` });
+      }
+
+      const conversation = await storage.getConversationRecord(target.conversationId);
+      const tree = buildMessageTree(await storage.getMessagesByConversation(target.conversationId));
+      // The reply answers the user message above the tool calls that led to it
+      let promptId = tree.parentOf.get(target.id);
+      while (promptId != null && tree.byId.get(promptId)?.role === "tool") {
+        promptId = tree.parentOf.get(promptId);
+      }
+      const prompt = promptId != null ? tree.byId.get(promptId) : undefined;
+      if (!conversation || !prompt) {
+        return res.status(400).json({ message: "Could not find the message this reply answers" });
+      }
+
+      const { assistantMessage, analysisResult, contextReport } = await replyTo(req.user!, conversation, prompt, pathTo(tree, prompt.id).slice(0, -1), model);
+      scheduleSummaryRefresh(conversation.id, contextReport.truncatedMessageIds, model);
+
+      res.json({
+        assistantMessage,
+        tokensUsed: analysisResult.tokensUsed,
+        context: contextReport
+      });
+    } catch (error: any) {
+      console.error("Regenerate error:", error);
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  // Edit a sent prompt. The original stays in place; the edited copy starts a
+  // new branch from the same point and gets a fresh reply.
+  app.post("/api/messages/:id/edit", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { content, model: requestedModel } = req.body;
+      if (!content || !requestedModel) {
+        return res.status(400).json({ message: "Missing required fields: content, model" });
+      }
+      const model = enabledModelId(requestedModel);
+      if (!model) {
+        return res.status(400).json({ message: `Unsupported model: ${requestedModel}` });
+      }
+
+      const target = await findOwnedMessage(req.user!, id);
+      if (!target) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      if (target.role !== "user") {
+        return res.status(400).json({ message: "Only your own messages can be edited" });
+      }
+
+      const conversation = await storage.getConversationRecord(target.conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const tree = buildMessageTree(await storage.getMessagesByConversation(target.conversationId));
+      const history = pathTo(tree, target.id).slice(0, -1);
+
+      // The edited copy keeps the original's files
       const userMessage = await storage.createMessage({
-        conversationId: convId,
+        conversationId: conversation.id,
         role: "user",
         content,
+        attachmentIds: target.attachmentIds,
+        parentId: tree.parentOf.get(target.id) ?? null,
       });
+      await storage.setActiveLeaf(conversation.id, userMessage.id);
+
+      const { assistantMessage, analysisResult, contextReport } = await replyTo(req.user!, conversation, userMessage, history, model);
+      scheduleSummaryRefresh(conversation.id, contextReport.truncatedMessageIds, model);
+
+      res.json({
+        userMessage,
+        assistantMessage,
+        tokensUsed: analysisResult.tokensUsed,
+        context: contextReport
+      });
+    } catch (error: any) {
+      console.error("Edit message error:", error);
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  // Show another branch: the one through messageId, following the newest
+  // reply below it
+  app.post("/api/conversations/:id/branch", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const messageId = parseInt(req.body.messageId);
+      if (!await findOwnedConversation(req.user!, id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const tree = buildMessageTree(await storage.getMessagesByConversation(id));
+      if (!tree.byId.has(messageId)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      await storage.setActiveLeaf(id, latestLeafId(tree, messageId));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Full-text search over the user's messages and conversation titles,
+  // best match first, with highlighted snippets
+  app.get("/api/search", requireAuth, async (req, res) => {
+    try {
+      const parsed = searchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      res.json(await searchConversations(req.user!.id, parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Upload a file to attach to the next message. Its text is extracted
+  // straight away, so unreadable files are rejected before they are sent.
+  app.post("/api/attachments", requireAuth, (req, res) => {
+    upload.single("file")(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ message: `Files can be at most ${Math.round(MAX_ATTACHMENT_BYTES / 1024 / 1024)} MB` });
+        }
+        if (uploadError) throw uploadError;
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const attachment = await saveAttachment(req.user!.id, req.file);
+        res.status(201).json(toAttachmentInfo(attachment));
+      } catch (error: any) {
+        res.status(errorStatus(error)).json({ message: error.message });
+      }
+    });
+  });
+
+  app.get("/api/attachments/:id/download", requireAuth, async (req, res) => {
+    try {
+      const attachment = await findOwnedAttachment(req.user!, parseInt(req.params.id));
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.download(attachment.storagePath, attachment.filename);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Team knowledge base. Every signed-in user can read and search it; only
+  // the uploader can remove or re-embed a document, and only an admin can
+  // re-embed the whole library.
+  app.get("/api/knowledge", requireAuth, async (_req, res) => {
+    try {
+      res.json(await storage.getKnowledgeDocuments());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Upload a document; it is chunked and embedded before the response
+  app.post("/api/knowledge", requireAuth, (req, res) => {
+    upload.single("file")(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({ message: `Files can be at most ${Math.round(MAX_ATTACHMENT_BYTES / 1024 / 1024)} MB` });
+        }
+        if (uploadError) throw uploadError;
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const title = typeof req.body.title === "string" ? req.body.title : undefined;
+        const document = await addKnowledgeDocument(req.user!.id, req.file, title);
+        res.status(201).json(document);
+      } catch (error: any) {
+        console.error("Knowledge upload error:", error);
+        res.status(errorStatus(error)).json({ message: error.message });
+      }
+    });
+  });
+
+  // Re-embeds documents stored with a previous EMBEDDING_PROVIDER: one
+  // document when the body has a documentId, otherwise all of them
+  app.post("/api/knowledge/reindex", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (req.body?.documentId === undefined) {
+        if (!isAdmin(user)) {
+          return res.status(403).json({ message: "Only an admin can re-embed the whole library; pass a documentId to re-embed a document you uploaded" });
+        }
+        return res.json({ updated: await reindexKnowledge() });
+      }
+
+      const id = Number(req.body.documentId);
+      const document = Number.isInteger(id) ? await storage.getKnowledgeDocument(id) : undefined;
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (document.userId !== user.id && !isAdmin(user)) {
+        return res.status(403).json({ message: "Only the person who uploaded a document or an admin can re-embed it" });
+      }
+      res.json({ updated: await reindexKnowledge(document.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/knowledge/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const document = Number.isInteger(id) ? await storage.getKnowledgeDocument(id) : undefined;
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (document.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the person who uploaded a document can remove it" });
+      }
+
+      await storage.deleteKnowledgeDocument(document.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Calculator endpoints. The assistant runs the same calculators as tools,
+  // and every run is saved to the user's calculation history.
+  app.post("/api/tools/owner-pay", requireAuth, async (req, res) => {
+    try {
+      const calculation = await runCalculation("owner-pay", req.body, { userId: req.user!.id });
+      res.json({ ...calculation.results, calculationId: calculation.id });
+    } catch (error: any) {
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  // With a model in the body the response also carries a written
+  // explanation of the figures
+  app.post("/api/tools/expenses", requireAuth, async (req, res) => {
+    try {
+      const requestedModel = req.body.model;
+      const model = requestedModel ? enabledModelId(requestedModel) : undefined;
+      if (requestedModel && !model) {
+        return res.status(400).json({ message: `Unsupported model: ${requestedModel}` });
+      }
+
+      const calculation = await runCalculation("expenses", req.body, { userId: req.user!.id });
+      const narrative = model
+        ? await aiService.explainCalculation({
+            model,
+            title: "Business expense deductions",
+            input: calculation.inputs,
+            result: calculation.results,
+          })
+        : undefined;
+
+      res.json({ ...calculation.results, calculationId: calculation.id, narrative });
+    } catch (error: any) {
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tools/investments", requireAuth, async (req, res) => {
+    try {
+      const calculation = await runCalculation("investments", req.body, { userId: req.user!.id });
+      res.json({ ...calculation.results, calculationId: calculation.id });
+    } catch (error: any) {
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  // Calculation history, newest first
+  app.get("/api/calculations", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getCalculationsByUser(req.user!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/calculations/:id", requireAuth, async (req, res) => {
+    try {
+      const calculation = await findOwnedCalculation(req.user!, parseInt(req.params.id));
+      if (!calculation) {
+        return res.status(404).json({ message: "Calculation not found" });
+      }
+      res.json(calculation);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Runs a saved calculation again with the current tax tables and saves
+  // the result as a new run
+  app.post("/api/calculations/:id/rerun", requireAuth, async (req, res) => {
+    try {
+      const calculation = await findOwnedCalculation(req.user!, parseInt(req.params.id));
+      if (!calculation) {
+        return res.status(404).json({ message: "Calculation not found" });
+      }
+      if (!isCalculationType(calculation.type)) {
+        return res.status(400).json({ message: `Unknown calculator: ${calculation.type}` });
+      }
+
+      const rerun = await runCalculation(calculation.type, calculation.inputs, { userId: req.user!.id });
+      res.status(201).json(rerun);
+    } catch (error: any) {
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  // Business analysis endpoint (TaxBuddy-style pattern)
+  app.post("/api/analyze-query", requireAuth, async (req, res) => {
+    try {
+      const { conversationId, content, model: requestedModel } = req.body;
+
+      if (!conversationId || !content || !requestedModel) {
+        return res.status(400).json({ message: "Missing required fields: conversationId, content, model" });
+      }
+
+      const model = enabledModelId(requestedModel);
+      if (!model) {
+        return res.status(400).json({ message: `Unsupported model: ${requestedModel}` });
+      }
+
+      const convId = parseInt(conversationId);
 
       // Get conversation context
       const conversation = await storage.getConversation(convId);
-      if (!conversation) {
+      if (!conversation || !canAccessConversation(req.user!, conversation)) {
         return res.status(404).json({ message: "Conversation not found" });
       }
 
-      // Prepare conversation history for AI analysis (last 10 messages for context)
-      const conversationHistory = conversation.messages.slice(-10).map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
+      const attachmentIds = await claimAttachments(req.user!.id, req.body.attachmentIds, convId);
+
+      // Save user message at the end of the branch being shown
+      const userMessage = await storage.createMessage({
+        conversationId: convId,
+        role: "user",
+        content,
+        attachmentIds: attachmentIds.length > 0 ? attachmentIds : null,
+        parentId: conversation.messages[conversation.messages.length - 1]?.id ?? null,
+      });
+      await storage.setActiveLeaf(convId, userMessage.id);
+
+      // Fit as much earlier history as the model's token budget allows.
+      // Attached files go to the model as text after their prompt, and the
+      // closest knowledge base passages as numbered sources before it.
+      const [query, ...history] = await withAttachmentText([userMessage, ...conversation.messages]);
+      const sources = await retrieveSources(content);
+      const { conversationHistory, report: contextReport } = buildContext({
+        model,
+        query: query.content,
+        history,
+        summary: conversation.summary,
+        knowledge: sourcesPrompt(sources),
+      });
 
       // Use AI service for structured business analysis
+      const { replyParentId, ...tools } = replyTools({ user: req.user!, conversationId: convId, model, promptId: userMessage.id });
       const analysisResult = await aiService.analyzeQuery({
-        query: content,
+        query: query.content,
         model,
         conversationHistory,
-        context: "Professional business consultation"
+        context: "Professional business consultation",
+        ...generationSettings(conversation),
+        ...tools
       });
 
-      // Save AI response
+      // Save AI response with the sources it cites
       const assistantMessage = await storage.createMessage({
         conversationId: convId,
         role: "assistant",
         content: analysisResult.response,
+        sources: citedSources(analysisResult.response, sources),
+        ...generationMetadata(analysisResult),
+        parentId: replyParentId(),
       });
+      await storage.setActiveLeaf(convId, assistantMessage.id);
+
+      // Fold messages that no longer fit into the running summary
+      scheduleSummaryRefresh(convId, contextReport.truncatedMessageIds, model);
 
       // Update conversation title if it's the first exchange
-      if (conversation.messages.length === 1) {
+      if (conversation.messages.length === 0) {
         const title = content.length > 50 ? content.substring(0, 50) + "..." : content;
         await storage.updateConversationTitle(convId, title);
       }
@@ -119,19 +749,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         userMessage,
         assistantMessage,
-        tokensUsed: analysisResult.tokensUsed
+        tokensUsed: analysisResult.tokensUsed,
+        context: contextReport
       });
 
     } catch (error: any) {
       console.error("Query analysis error:", error);
-      
-      if (error.message.includes("API key")) {
-        res.status(500).json({ message: "AI service configuration error. Please check API keys." });
-      } else if (error.message.includes("rate limit")) {
-        res.status(429).json({ message: "Service rate limit exceeded. Please try again in a moment." });
-      } else {
-        res.status(500).json({ message: error.message });
+      res.status(errorStatus(error)).json({ message: error.message });
+    }
+  });
+
+  // Streaming variant of /api/analyze-query. Replies with server-sent events:
+  // "user-message" once the prompt is saved, "delta" for every chunk of the
+  // reply, "tool" for every saved tool call, then "done" with the saved
+  // assistant message (or "error").
+  // Closing the connection stops the generation.
+  app.post("/api/analyze-query/stream", requireAuth, async (req, res) => {
+    const { conversationId, content, model: requestedModel } = req.body;
+
+    if (!conversationId || !content || !requestedModel) {
+      return res.status(400).json({ message: "Missing required fields: conversationId, content, model" });
+    }
+
+    const model = enabledModelId(requestedModel);
+    if (!model) {
+      return res.status(400).json({ message: `Unsupported model: ${requestedModel}` });
+    }
+
+    const convId = parseInt(conversationId);
+    let userMessage: Message | undefined;
+    let partialResponse = "";
+    let startedAt = Date.now();
+    let replyParentId = () => userMessage?.id;
+    let sources: MessageSource[] = [];
+
+    // Stopped with POST /api/conversations/:id/stop, or the client hung up
+    // before the reply finished
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abortController.abort();
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (res.destroyed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const existing = await storage.getConversation(convId);
+      if (!existing || !canAccessConversation(req.user!, existing)) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
+
+      // Registered before anything else is awaited so that no Stop is missed
+      streamingReplies.set(convId, abortController);
+      const attachmentIds = await claimAttachments(req.user!.id, req.body.attachmentIds, convId);
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      userMessage = await storage.createMessage({
+        conversationId: convId,
+        role: "user",
+        content,
+        attachmentIds: attachmentIds.length > 0 ? attachmentIds : null,
+        parentId: existing.messages[existing.messages.length - 1]?.id ?? null,
+      });
+      await storage.setActiveLeaf(convId, userMessage.id);
+      sendEvent("user-message", userMessage);
+
+      // History excludes the new prompt, which aiService appends itself.
+      // Attached files go to the model as text after their prompt, and the
+      // closest knowledge base passages as numbered sources before it.
+      const [query, ...history] = await withAttachmentText([userMessage, ...existing.messages]);
+      sources = await retrieveSources(content);
+      const { conversationHistory, report: contextReport } = buildContext({
+        model,
+        query: query.content,
+        history,
+        summary: existing.summary,
+        knowledge: sourcesPrompt(sources),
+      });
+      sendEvent("context", contextReport);
+
+      // Text written before a tool call is dropped, here and in the client
+      const { replyParentId: afterTools, ...tools } = replyTools({
+        user: req.user!,
+        conversationId: convId,
+        model,
+        promptId: userMessage.id,
+        signal: abortController.signal,
+        onSaved: (toolMessage) => {
+          partialResponse = "";
+          sendEvent("tool", toolMessage);
+        },
+      });
+      replyParentId = afterTools;
+
+      startedAt = Date.now();
+      const analysisResult = await aiService.streamQuery({
+        query: query.content,
+        model,
+        conversationHistory,
+        context: "Professional business consultation",
+        ...generationSettings(existing),
+        ...tools,
+        signal: abortController.signal
+      }, (text) => {
+        partialResponse += text;
+        sendEvent("delta", { text });
+      });
+
+      const assistantMessage = await storage.createMessage({
+        conversationId: convId,
+        role: "assistant",
+        content: analysisResult.response,
+        sources: citedSources(analysisResult.response, sources),
+        ...generationMetadata(analysisResult),
+        parentId: replyParentId(),
+      });
+      await storage.setActiveLeaf(convId, assistantMessage.id);
+
+      scheduleSummaryRefresh(convId, contextReport.truncatedMessageIds, model);
+
+      if (existing.messages.length === 0) {
+        const title = content.length > 50 ? content.substring(0, 50) + "..." : content;
+        await storage.updateConversationTitle(convId, title);
+      }
+
+      sendEvent("done", {
+        assistantMessage,
+        tokensUsed: analysisResult.tokensUsed
+      });
+      res.end();
+    } catch (error: any) {
+      const stopped = error instanceof GenerationAbortedError;
+      if (!stopped) {
+        console.error("Streaming query error:", error);
+      }
+
+      if (!res.headersSent) {
+        return res.status(errorStatus(error)).json({ message: error.message });
+      }
+
+      // Keep whatever the provider produced before it failed or was stopped.
+      // KEEP_STOPPED_REPLIES=false discards the partial text of stopped replies.
+      const keepPartial = !stopped || process.env.KEEP_STOPPED_REPLIES !== "false";
+      let assistantMessage;
+      if (partialResponse && keepPartial) {
+        try {
+          assistantMessage = await storage.createMessage({
+            conversationId: convId,
+            role: "assistant",
+            content: partialResponse,
+            sources: citedSources(partialResponse, sources),
+            status: stopped ? "stopped" : "error",
+            latencyMs: Date.now() - startedAt,
+            parentId: replyParentId(),
+          });
+          await storage.setActiveLeaf(convId, assistantMessage.id);
+        } catch (saveError) {
+          console.error("Failed to save partial response:", saveError);
+        }
+      }
+
+      // The client refreshes the conversation on either event, once the
+      // partial reply is saved
+      if (stopped) sendEvent("stopped", { assistantMessage });
+      else sendEvent("error", { message: error.message, assistantMessage });
+      res.end();
+    } finally {
+      if (streamingReplies.get(convId) === abortController) streamingReplies.delete(convId);
+    }
+  });
+
+  // Stops the reply streaming in a conversation. Its stream saves what was
+  // written so far and ends with a "stopped" event.
+  app.post("/api/conversations/:id/stop", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await findOwnedConversation(req.user!, id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const reply = streamingReplies.get(id);
+      reply?.abort();
+      res.json({ stopped: Boolean(reply) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
   });
 
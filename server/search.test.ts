@@ -0,0 +1,97 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import request from "supertest";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { SEARCH_MATCH_END, SEARCH_MATCH_START, storage } from "./storage";
+
+// GET /api/search: the storage query keeps to the caller's conversations, and
+// the route turns its ts_headline markers into plain text and offsets.
+
+const fixtures = vi.hoisted(() => {
+  const owner = { id: 1, username: "owner", password: "x" };
+  const intruder = { id: 2, username: "intruder", password: "x" };
+  return { owner, intruder, users: [owner, intruder] };
+});
+
+// Search rows belong to the owner; any other storage call is a failure
+vi.mock("./storage", async (importOriginal) => {
+  const { owner, users } = fixtures;
+  const { SEARCH_MATCH_START: start, SEARCH_MATCH_END: end } = await importOriginal<typeof import("./storage")>();
+  const rows = [{
+    conversationId: 10, conversationTitle: "Payroll questions", messageId: 100, role: "user", model: "fake",
+    createdAt: new Date("2024-03-01T12:00:00Z"),
+    headline: `How much ${start}salary${end} should I take? <b>not markup</b> … a ${start}salary${end} of $80k`,
+    rank: "0.6",
+  }];
+  const reads: Record<string, (...args: any[]) => Promise<unknown>> = {
+    getUser: async (id: number) => users.find(user => user.id === id),
+    search: vi.fn(async (userId: number) => (userId === owner.id ? rows : [])),
+  };
+  const storage = new Proxy(reads, {
+    get: (target, name: string) => target[name] ?? (async () => {
+      throw new Error(`Unexpected storage call: ${name}`);
+    }),
+  });
+  return { storage, SEARCH_MATCH_START: start, SEARCH_MATCH_END: end };
+});
+
+// The session store needs Postgres; requests sign in with a header instead
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./auth", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./auth")>(),
+  setupAuth: (app: express.Express) => {
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      const user = fixtures.users.find(candidate => candidate.id === Number(req.header("x-test-user")));
+      req.user = user as User | undefined;
+      req.isAuthenticated = (() => Boolean(user)) as Request["isAuthenticated"];
+      next();
+    });
+  },
+}));
+
+let app: express.Express;
+
+beforeAll(async () => {
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+beforeEach(() => {
+  vi.mocked(storage.search).mockClear();
+});
+
+const { owner, intruder } = fixtures;
+const search = (user: { id: number }, query: Record<string, string>) =>
+  request(app).get("/api/search").query(query).set("x-test-user", String(user.id));
+
+describe("GET /api/search", () => {
+  it("searches only the caller's conversations", async () => {
+    const response = await search(intruder, { q: "salary" });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([]);
+    expect(storage.search).toHaveBeenCalledWith(intruder.id, expect.objectContaining({ query: "salary" }));
+  });
+
+  it.each(["", "   "])("rejects the query %j without searching", async (q) => {
+    const response = await search(owner, { q });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Enter something to search for");
+    expect(storage.search).not.toHaveBeenCalled();
+  });
+
+  it("sends the snippet as plain text with the matches as offsets", async () => {
+    const response = await search(owner, { q: " salary " });
+    const [result] = response.body;
+
+    expect(storage.search).toHaveBeenCalledWith(owner.id, expect.objectContaining({ query: "salary" }));
+    expect(result.snippet).toBe("How much salary should I take? <b>not markup</b> … a salary of $80k");
+    expect(result.snippet).not.toMatch(new RegExp(`[${SEARCH_MATCH_START}${SEARCH_MATCH_END}]`));
+    expect(result.highlights.map(({ start, end }: { start: number; end: number }) => result.snippet.slice(start, end)))
+      .toEqual(["salary", "salary"]);
+    expect(result).toMatchObject({ createdAt: "2024-03-01T12:00:00.000Z", rank: 0.6 });
+  });
+});
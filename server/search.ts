@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { SearchHighlight, SearchResult } from "@shared/schema";
+import { SEARCH_MATCH_END, SEARCH_MATCH_START, storage, type SearchRow } from "./storage";
+
+// Query string of GET /api/search. Dates are ISO timestamps; `to` is inclusive.
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Enter something to search for").max(200, "Search text can be at most 200 characters"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  model: z.string().min(1).optional(),
+  role: z.enum(["user", "assistant"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// Takes the match markers out of a headline, keeping where they were
+function toSnippet(headline: string): { snippet: string; highlights: SearchHighlight[] } {
+  const highlights: SearchHighlight[] = [];
+  let snippet = "";
+  let start: number | undefined;
+
+  for (const char of headline) {
+    if (char === SEARCH_MATCH_START) {
+      start = snippet.length;
+    } else if (char === SEARCH_MATCH_END) {
+      if (start !== undefined && snippet.length > start) {
+        highlights.push({ start, end: snippet.length });
+      }
+      start = undefined;
+    } else {
+      snippet += char;
+    }
+  }
+  return { snippet, highlights };
+}
+
+function toSearchResult({ headline, createdAt, rank, ...row }: SearchRow): SearchResult {
+  return {
+    ...row,
+    ...toSnippet(headline),
+    createdAt: createdAt.toISOString(),
+    rank: Number(rank),
+  };
+}
+
+export async function searchConversations(userId: number, query: SearchQuery): Promise<SearchResult[]> {
+  const rows = await storage.search(userId, {
+    query: query.q,
+    from: query.from,
+    to: query.to,
+    model: query.model,
+    role: query.role,
+    limit: query.limit,
+  });
+  return rows.map(toSearchResult);
+}
@@ -2,16 +2,81 @@ import {
   users, 
   conversations, 
   messages,
+  attachments,
+  calculations,
+  knowledgeDocuments,
+  knowledgeChunks,
+  searchDocument,
   type User, 
   type InsertUser,
   type Conversation,
   type InsertConversation,
+  type ConversationSettings,
   type Message,
   type InsertMessage,
+  type Attachment,
+  type AttachmentInfo,
+  type InsertAttachment,
+  type Calculation,
+  type InsertCalculation,
+  type KnowledgeDocument,
+  type InsertKnowledgeDocument,
+  type KnowledgeChunk,
+  type InsertKnowledgeChunk,
   type ConversationWithMessages
 } from "@shared/schema";
+import { activePath, branchesAlong, buildMessageTree } from "@shared/message-tree";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { and, cosineDistance, desc, eq, gte, inArray, lte, ne, sql, type SQL } from "drizzle-orm";
+
+// A knowledge base chunk found by a similarity search
+export type KnowledgeMatch = KnowledgeChunk & {
+  title: string;
+  // Cosine distance to the query, 0 for an identical direction
+  distance: number;
+};
+
+export type SearchOptions = {
+  // Web-search syntax: words, "quoted phrases", OR and -excluded words
+  query: string;
+  from?: Date;
+  to?: Date;
+  model?: string;
+  // Only messages from this role; conversation titles are left out
+  role?: "user" | "assistant";
+  limit: number;
+};
+
+// A search hit before its snippet is cleaned up; matches in `headline` are
+// wrapped in SEARCH_MATCH_START and SEARCH_MATCH_END
+export type SearchRow = {
+  conversationId: number;
+  conversationTitle: string;
+  messageId: number | null;
+  role: string | null;
+  model: string | null;
+  createdAt: Date;
+  headline: string;
+  rank: number;
+};
+
+// A conversation brought in from another chat app, with its original times
+export type ImportedConversation = InsertConversation & Pick<Conversation, "importSource" | "importKey" | "createdAt" | "updatedAt">;
+
+// A message of an imported conversation. `parent` is the position of its
+// parent in the list, which always comes first.
+export type ImportedMessage = Omit<InsertMessage, "conversationId" | "parentId"> & {
+  createdAt: Date;
+  parent: number | null;
+};
+
+// Messages per insert when importing, well under Postgres' parameter limit
+const IMPORT_BATCH = 500;
+
+// Control characters that cannot occur in chat text mark the matches
+export const SEARCH_MATCH_START = "\u0002";
+export const SEARCH_MATCH_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${SEARCH_MATCH_START}, StopSel=${SEARCH_MATCH_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -20,12 +85,40 @@ export interface IStorage {
   
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   getConversation(id: number): Promise<ConversationWithMessages | undefined>;
+  getConversationRecord(id: number): Promise<Conversation | undefined>;
   getConversationsByUser(userId: number): Promise<Conversation[]>;
   updateConversationTitle(id: number, title: string): Promise<void>;
+  updateConversationSummary(id: number, summary: string | null, throughMessageId?: number): Promise<void>;
+  updateConversationSettings(id: number, settings: ConversationSettings): Promise<void>;
+  setActiveLeaf(id: number, messageId: number): Promise<void>;
   deleteConversation(id: number): Promise<void>;
+  importConversation(conversation: ImportedConversation, messages: ImportedMessage[], activeLeaf: number): Promise<Conversation>;
+  getImportKeys(userId: number, keys: string[]): Promise<string[]>;
   
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessage(id: number): Promise<Message | undefined>;
   getMessagesByConversation(conversationId: number): Promise<Message[]>;
+  setMessagePinned(id: number, pinned: boolean): Promise<Message | undefined>;
+
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachments(ids: number[]): Promise<Attachment[]>;
+  getAttachmentsByConversation(conversationId: number): Promise<Attachment[]>;
+  setAttachmentsConversation(ids: number[], conversationId: number): Promise<void>;
+
+  createCalculation(calculation: InsertCalculation): Promise<Calculation>;
+  getCalculation(id: number): Promise<Calculation | undefined>;
+  getCalculationsByUser(userId: number): Promise<Calculation[]>;
+
+  search(userId: number, options: SearchOptions): Promise<SearchRow[]>;
+
+  createKnowledgeDocument(document: InsertKnowledgeDocument, chunks: Omit<InsertKnowledgeChunk, "documentId">[]): Promise<KnowledgeDocument>;
+  getKnowledgeDocument(id: number): Promise<KnowledgeDocument | undefined>;
+  getKnowledgeDocuments(): Promise<KnowledgeDocument[]>;
+  deleteKnowledgeDocument(id: number): Promise<void>;
+  hasKnowledgeChunks(embeddingModel: string): Promise<boolean>;
+  searchKnowledgeChunks(embedding: number[], embeddingModel: string, limit: number): Promise<KnowledgeMatch[]>;
+  getStaleKnowledgeChunks(embeddingModel: string, limit: number, documentId?: number): Promise<KnowledgeChunk[]>;
+  updateKnowledgeChunkEmbedding(id: number, embedding: number[], embeddingModel: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -63,18 +156,30 @@ export class DatabaseStorage implements IStorage {
     
     if (!conversation) return undefined;
 
-    const conversationMessages = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.conversationId, id))
-      .orderBy(messages.createdAt);
+    const conversationMessages = await this.getMessagesByConversation(id);
+    const path = activePath(conversationMessages, conversation.activeLeafId);
+    const pathAttachments = await this.getAttachments(path.flatMap(message => message.attachmentIds ?? []));
 
     return {
       ...conversation,
-      messages: conversationMessages,
+      messages: path,
+      branches: branchesAlong(buildMessageTree(conversationMessages), path),
+      attachments: Object.fromEntries(pathAttachments.map(attachment => {
+        const { userId, storagePath, extractedText, ...info } = attachment;
+        return [attachment.id, info satisfies AttachmentInfo];
+      })),
     };
   }
 
+  // The conversation row alone, without loading its messages
+  async getConversationRecord(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, id));
+    return conversation || undefined;
+  }
+
   async getConversationsByUser(userId: number): Promise<Conversation[]> {
     return await db
       .select()
@@ -90,11 +195,87 @@ export class DatabaseStorage implements IStorage {
       .where(eq(conversations.id, id));
   }
 
+  async updateConversationSettings(id: number, settings: ConversationSettings): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(conversations.id, id));
+  }
+
+  async updateConversationSummary(id: number, summary: string | null, throughMessageId?: number): Promise<void> {
+    await db
+      .update(conversations)
+      .set({
+        summary,
+        summaryUpdatedAt: new Date(),
+        ...(throughMessageId !== undefined && { summaryThroughMessageId: throughMessageId }),
+      })
+      .where(eq(conversations.id, id));
+  }
+
+  async setActiveLeaf(id: number, messageId: number): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ activeLeafId: messageId })
+      .where(eq(conversations.id, id));
+  }
+
   async deleteConversation(id: number): Promise<void> {
+    // Calculations stay in the user's history without the link
+    await db
+      .update(calculations)
+      .set({ conversationId: null })
+      .where(eq(calculations.conversationId, id));
+    await db.delete(attachments).where(eq(attachments.conversationId, id));
     await db.delete(messages).where(eq(messages.conversationId, id));
     await db.delete(conversations).where(eq(conversations.id, id));
   }
 
+  // The conversation and all its messages are saved together or not at all.
+  // `activeLeaf` is the position of the last message of the branch to show.
+  async importConversation(conversation: ImportedConversation, importedMessages: ImportedMessage[], activeLeaf: number): Promise<Conversation> {
+    return await db.transaction(async (tx) => {
+      const [newConversation] = await tx
+        .insert(conversations)
+        .values(conversation)
+        .returning();
+
+      // Ids are taken up front, in order, so a long conversation is saved in
+      // a few inserts instead of one per message
+      const ids = (await tx
+        .select({ id: sql<number>`nextval(pg_get_serial_sequence('officegpt_messages', 'id'))::integer` })
+        .from(sql`generate_series(1, ${importedMessages.length})`))
+        .map(row => row.id)
+        .sort((a, b) => a - b);
+      const rows = importedMessages.map(({ parent, ...message }, i) => ({
+        ...message,
+        id: ids[i],
+        conversationId: newConversation.id,
+        parentId: parent === null ? null : ids[parent],
+      }));
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH) {
+        await tx.insert(messages).values(rows.slice(start, start + IMPORT_BATCH));
+      }
+
+      const [updated] = await tx
+        .update(conversations)
+        .set({ activeLeafId: ids[activeLeaf] ?? null })
+        .where(eq(conversations.id, newConversation.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // The keys among `keys` the user has already imported
+  async getImportKeys(userId: number, keys: string[]): Promise<string[]> {
+    if (keys.length === 0) return [];
+    const rows = await db
+      .select({ importKey: conversations.importKey })
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), inArray(conversations.importKey, keys)));
+    return rows.map(row => row.importKey!);
+  }
+
   async createMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db
       .insert(messages)
@@ -110,12 +291,220 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message || undefined;
+  }
+
   async getMessagesByConversation(conversationId: number): Promise<Message[]> {
     return await db
       .select()
       .from(messages)
       .where(eq(messages.conversationId, conversationId))
-      .orderBy(messages.createdAt);
+      .orderBy(messages.createdAt, messages.id);
+  }
+
+  async setMessagePinned(id: number, pinned: boolean): Promise<Message | undefined> {
+    const [message] = await db
+      .update(messages)
+      .set({ pinned })
+      .where(eq(messages.id, id))
+      .returning();
+    return message || undefined;
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const [newAttachment] = await db
+      .insert(attachments)
+      .values(attachment)
+      .returning();
+    return newAttachment;
+  }
+
+  async getAttachments(ids: number[]): Promise<Attachment[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.id, ids))
+      .orderBy(attachments.id);
+  }
+
+  async getAttachmentsByConversation(conversationId: number): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.conversationId, conversationId));
+  }
+
+  async setAttachmentsConversation(ids: number[], conversationId: number): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(attachments)
+      .set({ conversationId })
+      .where(inArray(attachments.id, ids));
+  }
+
+  async createCalculation(calculation: InsertCalculation): Promise<Calculation> {
+    const [newCalculation] = await db
+      .insert(calculations)
+      .values(calculation)
+      .returning();
+    return newCalculation;
+  }
+
+  async getCalculation(id: number): Promise<Calculation | undefined> {
+    const [calculation] = await db.select().from(calculations).where(eq(calculations.id, id));
+    return calculation || undefined;
+  }
+
+  async getCalculationsByUser(userId: number): Promise<Calculation[]> {
+    return await db
+      .select()
+      .from(calculations)
+      .where(eq(calculations.userId, userId))
+      .orderBy(desc(calculations.createdAt), desc(calculations.id));
+  }
+
+  // The user's messages and conversation titles that match, best first.
+  // Tool results are left out; a user message's model is its conversation's.
+  async search(userId: number, options: SearchOptions): Promise<SearchRow[]> {
+    const query = sql`websearch_to_tsquery('english', ${options.query})`;
+
+    const messageDocument = searchDocument(messages.content);
+    const messageModel = sql<string | null>`coalesce(${messages.model}, ${conversations.model})`;
+    const messageRank = sql<number>`ts_rank(${messageDocument}, ${query})`;
+    const messageConditions: SQL[] = [
+      eq(conversations.userId, userId),
+      sql`${messageDocument} @@ ${query}`,
+      inArray(messages.role, options.role ? [options.role] : ["user", "assistant"]),
+    ];
+    if (options.model) messageConditions.push(eq(messageModel, options.model));
+    if (options.from) messageConditions.push(gte(messages.createdAt, options.from));
+    if (options.to) messageConditions.push(lte(messages.createdAt, options.to));
+
+    const messageRows = await db
+      .select({
+        conversationId: messages.conversationId,
+        conversationTitle: conversations.title,
+        messageId: messages.id,
+        role: messages.role,
+        model: messageModel,
+        createdAt: messages.createdAt,
+        headline: sql<string>`ts_headline('english', ${messages.content}, ${query}, ${HEADLINE_OPTIONS})`,
+        rank: messageRank,
+      })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(...messageConditions))
+      .orderBy(desc(messageRank), desc(messages.createdAt))
+      .limit(options.limit);
+
+    if (options.role) return messageRows;
+
+    const titleDocument = searchDocument(conversations.title);
+    const titleRank = sql<number>`ts_rank(${titleDocument}, ${query})`;
+    const titleConditions: SQL[] = [
+      eq(conversations.userId, userId),
+      sql`${titleDocument} @@ ${query}`,
+    ];
+    if (options.model) titleConditions.push(eq(conversations.model, options.model));
+    if (options.from) titleConditions.push(gte(conversations.updatedAt, options.from));
+    if (options.to) titleConditions.push(lte(conversations.updatedAt, options.to));
+
+    const titleRows = await db
+      .select({
+        conversationId: conversations.id,
+        conversationTitle: conversations.title,
+        messageId: sql<number | null>`null`,
+        role: sql<string | null>`null`,
+        model: conversations.model,
+        createdAt: conversations.updatedAt,
+        headline: sql<string>`ts_headline('english', ${conversations.title}, ${query}, ${HEADLINE_OPTIONS})`,
+        rank: titleRank,
+      })
+      .from(conversations)
+      .where(and(...titleConditions))
+      .orderBy(desc(titleRank), desc(conversations.updatedAt))
+      .limit(options.limit);
+
+    return [...titleRows, ...messageRows]
+      .sort((a, b) => b.rank - a.rank || b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit);
+  }
+
+  // The document and all its chunks are saved together or not at all
+  async createKnowledgeDocument(document: InsertKnowledgeDocument, chunks: Omit<InsertKnowledgeChunk, "documentId">[]): Promise<KnowledgeDocument> {
+    return await db.transaction(async (tx) => {
+      const [newDocument] = await tx
+        .insert(knowledgeDocuments)
+        .values(document)
+        .returning();
+      if (chunks.length > 0) {
+        await tx
+          .insert(knowledgeChunks)
+          .values(chunks.map(chunk => ({ ...chunk, documentId: newDocument.id })));
+      }
+      return newDocument;
+    });
+  }
+
+  async getKnowledgeDocument(id: number): Promise<KnowledgeDocument | undefined> {
+    const [document] = await db.select().from(knowledgeDocuments).where(eq(knowledgeDocuments.id, id));
+    return document || undefined;
+  }
+
+  async getKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+    return await db
+      .select()
+      .from(knowledgeDocuments)
+      .orderBy(desc(knowledgeDocuments.createdAt), desc(knowledgeDocuments.id));
+  }
+
+  async deleteKnowledgeDocument(id: number): Promise<void> {
+    await db.delete(knowledgeChunks).where(eq(knowledgeChunks.documentId, id));
+    await db.delete(knowledgeDocuments).where(eq(knowledgeDocuments.id, id));
+  }
+
+  async hasKnowledgeChunks(embeddingModel: string): Promise<boolean> {
+    const [chunk] = await db
+      .select({ id: knowledgeChunks.id })
+      .from(knowledgeChunks)
+      .where(eq(knowledgeChunks.embeddingModel, embeddingModel))
+      .limit(1);
+    return Boolean(chunk);
+  }
+
+  // Nearest chunks first. Chunks embedded by another model are skipped, as
+  // their vectors cannot be compared with this one.
+  async searchKnowledgeChunks(embedding: number[], embeddingModel: string, limit: number): Promise<KnowledgeMatch[]> {
+    const distance = cosineDistance(knowledgeChunks.embedding, embedding);
+    const rows = await db
+      .select({ chunk: knowledgeChunks, title: knowledgeDocuments.title, distance })
+      .from(knowledgeChunks)
+      .innerJoin(knowledgeDocuments, eq(knowledgeChunks.documentId, knowledgeDocuments.id))
+      .where(eq(knowledgeChunks.embeddingModel, embeddingModel))
+      .orderBy(distance)
+      .limit(limit);
+    return rows.map(({ chunk, title, distance }) => ({ ...chunk, title, distance: Number(distance) }));
+  }
+
+  async getStaleKnowledgeChunks(embeddingModel: string, limit: number, documentId?: number): Promise<KnowledgeChunk[]> {
+    const conditions = [ne(knowledgeChunks.embeddingModel, embeddingModel)];
+    if (documentId !== undefined) conditions.push(eq(knowledgeChunks.documentId, documentId));
+    return await db
+      .select()
+      .from(knowledgeChunks)
+      .where(and(...conditions))
+      .orderBy(knowledgeChunks.id)
+      .limit(limit);
+  }
+
+  async updateKnowledgeChunkEmbedding(id: number, embedding: number[], embeddingModel: string): Promise<void> {
+    await db
+      .update(knowledgeChunks)
+      .set({ embedding, embeddingModel })
+      .where(eq(knowledgeChunks.id, id));
   }
 }
 
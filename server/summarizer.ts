@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import { aiService } from "./ai-service";
+
+// Conversations with a summary refresh in flight; one job per conversation
+const inFlight = new Set<number>();
+
+// Folds messages that dropped out of the context window into the stored
+// summary. Only messages newer than the current summary are sent, so each
+// message is summarized once. Runs after the reply has been sent and never
+// throws: a failed refresh is retried the next time messages age out.
+export function scheduleSummaryRefresh(conversationId: number, truncatedMessageIds: number[], model: string) {
+  if (truncatedMessageIds.length === 0 || inFlight.has(conversationId)) return;
+
+  inFlight.add(conversationId);
+  refreshSummary(conversationId, truncatedMessageIds, process.env.SUMMARY_MODEL || model)
+    .catch(error => console.error(`Summary refresh failed for conversation ${conversationId}:`, error))
+    .finally(() => inFlight.delete(conversationId));
+}
+
+async function refreshSummary(conversationId: number, truncatedMessageIds: number[], model: string) {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation) return;
+
+  const summarizedThrough = conversation.summaryThroughMessageId ?? 0;
+  const truncated = new Set(truncatedMessageIds);
+  const agedOut = conversation.messages.filter(msg => truncated.has(msg.id) && msg.id > summarizedThrough);
+  if (agedOut.length === 0) return;
+
+  const summary = await aiService.summarizeConversation({
+    model,
+    previousSummary: conversation.summary,
+    messages: agedOut,
+  });
+
+  await storage.updateConversationSummary(conversationId, summary, agedOut[agedOut.length - 1].id);
+}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+import type { Tool } from "./types";
+
+const inputSchema = z.object({
+  timeZone: z.string().optional().describe("IANA time zone, e.g. America/Toronto. Defaults to the server's."),
+});
+
+// Models don't know what day it is, which matters for tax years and deadlines
+export const currentDateTool: Tool<typeof inputSchema> = {
+  name: "get_current_date",
+  description: "Get the current date and time, for questions that depend on today's date such as the current tax year or upcoming deadlines.",
+  inputSchema,
+  async handler({ timeZone }) {
+    const now = new Date();
+    let local: string;
+    try {
+      local = now.toLocaleString("en-CA", { timeZone, dateStyle: "full", timeStyle: "long" });
+    } catch {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+    return { iso: now.toISOString(), local, timeZone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone };
+  },
+};
@@ -0,0 +1,17 @@
+import { expenseInputSchema } from "@shared/expenses";
+import { runCalculation } from "../calculations";
+import type { Tool } from "./types";
+
+export const expensesTool: Tool<typeof expenseInputSchema> = {
+  name: "calculate_business_expenses",
+  description: "Work out deductible business expenses for a Canadian self-employed owner under CRA rules: the home office share of home costs, the business-use share of vehicle costs, 50% of meals and entertainment, professional development, and capital cost allowance (or immediate expensing) by CCA class for equipment. Returns each deduction, the total and the personal tax saved. Use it for any expense or deduction figures rather than estimating them, then explain the results in your own words.",
+  inputSchema: expenseInputSchema,
+  async handler(input, context) {
+    const calculation = await runCalculation("expenses", input, {
+      userId: context.user.id,
+      conversationId: context.conversationId,
+      toolCallId: context.callId,
+    });
+    return calculation.results;
+  },
+};
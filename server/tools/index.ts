@@ -0,0 +1,72 @@
+import type { ToolCall, ToolDefinition } from "../providers";
+import { toJsonSchema } from "./json-schema";
+import { currentDateTool } from "./current-date";
+import { expensesTool } from "./expenses";
+import { investmentsTool } from "./investments";
+import { ownerPayTool } from "./owner-pay";
+import type { Tool, ToolContext, ToolResult, ToolRunner } from "./types";
+
+export type { Tool, ToolContext, ToolResult, ToolRunner } from "./types";
+
+const tools = new Map<string, { tool: Tool; definition: ToolDefinition }>();
+
+export function registerTool(tool: Tool<any>) {
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+    throw new Error(`Invalid tool name "${tool.name}"`);
+  }
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool "${tool.name}" is already registered`);
+  }
+  tools.set(tool.name, {
+    tool,
+    definition: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.inputSchema) },
+  });
+}
+
+export function listTools(): Tool[] {
+  return Array.from(tools.values()).map(entry => entry.tool);
+}
+
+const errorResult = (message: string): ToolResult => ({
+  content: JSON.stringify({ error: message }),
+  isError: true,
+});
+
+// Binds the tools the context is allowed to use. Failures become error
+// results for the model to read rather than exceptions, so it can correct
+// its arguments or answer without the tool.
+export function createToolRunner(context: ToolContext): ToolRunner {
+  const allowed = Array.from(tools.values())
+    .filter(({ tool }) => !tool.permission || tool.permission(context));
+
+  return {
+    definitions: allowed.map(entry => entry.definition),
+
+    async run(call: ToolCall): Promise<ToolResult> {
+      const tool = allowed.find(entry => entry.tool.name === call.name)?.tool;
+      if (!tool) {
+        return errorResult(`Unknown tool: ${call.name}`);
+      }
+
+      const input = tool.inputSchema.safeParse(call.arguments);
+      if (!input.success) {
+        const issues = input.error.errors.map(issue => `${issue.path.join(".") || "input"}: ${issue.message}`);
+        return errorResult(`Invalid arguments. ${issues.join("; ")}`);
+      }
+
+      try {
+        const output = await tool.handler(input.data, { ...context, callId: call.id });
+        return { content: JSON.stringify(output ?? null), isError: false };
+      } catch (error) {
+        if (context.signal?.aborted) throw error;
+        console.error(`Tool ${call.name} failed:`, error);
+        return errorResult(error instanceof Error ? error.message : "Tool failed");
+      }
+    },
+  };
+}
+
+registerTool(currentDateTool);
+registerTool(ownerPayTool);
+registerTool(expensesTool);
+registerTool(investmentsTool);
@@ -0,0 +1,17 @@
+import { investmentInputSchema } from "@shared/investments";
+import { runCalculation } from "../calculations";
+import type { Tool } from "./types";
+
+export const investmentsTool: Tool<typeof investmentInputSchema> = {
+  name: "compare_investments",
+  description: "Compare three ways a Canadian incorporated owner can invest business income: leaving it in the corporation, paying it out as salary and investing personally, or paying it out as salary and contributing to an RRSP. Returns the tax paid going in and coming out, the after-tax value of each (also in today's dollars) and a year-by-year projection, which the chat shows as a chart. Use it for any investment comparison rather than estimating the numbers.",
+  inputSchema: investmentInputSchema,
+  async handler(input, context) {
+    const calculation = await runCalculation("investments", input, {
+      userId: context.user.id,
+      conversationId: context.conversationId,
+      toolCallId: context.callId,
+    });
+    return calculation.results;
+  },
+};
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+type JsonSchema = Record<string, unknown>;
+
+// Turns the zod types tool inputs use into JSON Schema for the provider
+// APIs. Anything else throws when the tool is registered, not mid-chat.
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema.removeDefault();
+    return described(toJsonSchema(inner));
+  }
+  if (schema instanceof z.ZodEffects) {
+    return described(toJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, field]) => !field.isOptional())
+      .map(([key]) => key);
+    return described({
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toJsonSchema(field)])),
+      ...(required.length > 0 && { required }),
+      additionalProperties: false,
+    });
+  }
+  if (schema instanceof z.ZodArray) {
+    return described({ type: "array", items: toJsonSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: "string", enum: schema.options });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return described({ type: typeof schema.value, enum: [schema.value] });
+  }
+  if (schema instanceof z.ZodString) {
+    return described({ type: "string" });
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+    if (schema.minValue !== null) json.minimum = schema.minValue;
+    if (schema.maxValue !== null) json.maximum = schema.maxValue;
+    return described(json);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: "boolean" });
+  }
+
+  throw new Error(`Unsupported zod type in tool schema: ${schema._def.typeName}`);
+}
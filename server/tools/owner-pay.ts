@@ -0,0 +1,17 @@
+import { ownerPayInputSchema } from "@shared/owner-pay";
+import { runCalculation } from "../calculations";
+import type { Tool } from "./types";
+
+export const ownerPayTool: Tool<typeof ownerPayInputSchema> = {
+  name: "calculate_owner_pay",
+  description: "Compare paying the owner of a Canadian small-business corporation by salary, dividends or a mix, using the tax rates for the given year and province (Ontario 2024 unless told otherwise). Returns corporate tax, personal tax, CPP/EI, total tax, the owner's net income, RRSP room and any shortfall the corporation cannot pay for each strategy. Use it whenever someone asks how to pay themselves from their corporation instead of estimating the numbers.",
+  inputSchema: ownerPayInputSchema,
+  async handler(input, context) {
+    const calculation = await runCalculation("owner-pay", input, {
+      userId: context.user.id,
+      conversationId: context.conversationId,
+      toolCallId: context.callId,
+    });
+    return calculation.results;
+  },
+};
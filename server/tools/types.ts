@@ -0,0 +1,37 @@
+import type { z } from "zod";
+import type { PublicUser } from "@shared/schema";
+import type { ToolCall, ToolDefinition } from "../providers";
+
+// Who is asking and where; handed to permission checks and handlers
+export interface ToolContext {
+  user: PublicUser;
+  conversationId: number;
+  signal?: AbortSignal;
+  // Id of the call being handled; set by the runner
+  callId?: string;
+}
+
+// A function the assistant can call. The input schema doubles as the JSON
+// Schema the model sees and as the check its arguments must pass.
+export interface Tool<Input extends z.ZodTypeAny = z.ZodTypeAny> {
+  // Letters, digits, "_" and "-" only, as the provider APIs require
+  name: string;
+  description: string;
+  inputSchema: Input;
+  // Tools without one are open to every signed-in user
+  permission?: (context: ToolContext) => boolean;
+  // The result is sent to the model as JSON
+  handler(input: z.infer<Input>, context: ToolContext): Promise<unknown>;
+}
+
+export interface ToolResult {
+  // JSON text the model reads
+  content: string;
+  isError: boolean;
+}
+
+// The tools one request may use, bound to its context
+export interface ToolRunner {
+  definitions: ToolDefinition[];
+  run(call: ToolCall): Promise<ToolResult>;
+}
@@ -0,0 +1,26 @@
+// Helpers shared by the server modules
+
+// A positive whole number from the environment, or undefined when the
+// variable is unset or invalid
+export function envInt(name: string): number | undefined {
+  const value = process.env[name] ? parseInt(process.env[name]!) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Same, for settings that can have a fraction
+export function envNumber(name: string): number | undefined {
+  const value = process.env[name] ? Number(process.env[name]) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Problems with what the user sent that they can fix, e.g. an unreadable
+// upload, with the status to answer
+export class UserInputError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "UserInputError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { calculateOwnerPay, ownerPayInputSchema } from "./owner-pay";
+import { calculateExpenses, expenseInputSchema } from "./expenses";
+import { calculateInvestmentStrategies, investmentInputSchema } from "./investments";
+
+// The calculators whose runs are saved to a user's history, by the type
+// stored on each calculation
+interface CalculatorDefinition<Schema extends z.ZodTypeAny, Result extends object> {
+  label: string;
+  inputSchema: Schema;
+  calculate(input: z.infer<Schema>): Result;
+}
+
+type CalculatorRun<Schema extends z.ZodTypeAny, Result extends object> =
+  | { success: true; inputs: z.infer<Schema>; results: Result }
+  | { success: false; error: z.ZodError };
+
+interface Calculator<Schema extends z.ZodTypeAny, Result extends object> extends CalculatorDefinition<Schema, Result> {
+  // Validates the inputs and calculates; the inputs come back with the
+  // schema's defaults filled in
+  run(inputs: unknown): CalculatorRun<Schema, Result>;
+}
+
+const calculator = <Schema extends z.ZodTypeAny, Result extends object>(
+  definition: CalculatorDefinition<Schema, Result>
+): Calculator<Schema, Result> => ({
+  ...definition,
+  run(inputs) {
+    const parsed = definition.inputSchema.safeParse(inputs);
+    if (!parsed.success) return { success: false, error: parsed.error };
+    return { success: true, inputs: parsed.data, results: definition.calculate(parsed.data) };
+  },
+});
+
+export const CALCULATORS = {
+  "owner-pay": calculator({ label: "Owner pay", inputSchema: ownerPayInputSchema, calculate: calculateOwnerPay }),
+  expenses: calculator({ label: "Business expenses", inputSchema: expenseInputSchema, calculate: calculateExpenses }),
+  investments: calculator({ label: "Investment comparison", inputSchema: investmentInputSchema, calculate: calculateInvestmentStrategies }),
+};
+
+export type CalculationType = keyof typeof CALCULATORS;
+
+// What a calculator returns, e.g. OwnerPayResult for "owner-pay"
+export type CalculationResult<Type extends CalculationType> = ReturnType<typeof CALCULATORS[Type]["calculate"]>;
+
+// The calculator behind each of the assistant's calculator tools
+export const CALCULATOR_TOOLS = {
+  calculate_owner_pay: "owner-pay",
+  calculate_business_expenses: "expenses",
+  compare_investments: "investments",
+} as const satisfies Record<string, CalculationType>;
+
+export type CalculatorToolName = keyof typeof CALCULATOR_TOOLS;
+
+// What a calculator tool call returns, by tool name
+export type CalculatorToolResult<Name extends CalculatorToolName> = CalculationResult<typeof CALCULATOR_TOOLS[Name]>;
+
+export function isCalculatorTool(name: string): name is CalculatorToolName {
+  return Object.prototype.hasOwnProperty.call(CALCULATOR_TOOLS, name);
+}
+
+export function isCalculationType(type: string): type is CalculationType {
+  return Object.prototype.hasOwnProperty.call(CALCULATORS, type);
+}
+
+export function calculationLabel(type: string): string {
+  return isCalculationType(type) ? CALCULATORS[type].label : type;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateEquipmentDeductions,
+  calculateExpenses,
+  expenseInputSchema,
+  passengerVehicleCostLimit,
+  type CCAClass,
+} from "./expenses";
+
+// Figures follow the CRA's Guide T4002 (Self-employed Business, Professional,
+// Commission, Farming, and Fishing Income): its motor vehicle example, and
+// the rules and limits it sets out for the other deductions.
+
+describe("business-use-of-home expenses", () => {
+  it("deducts the workspace's share of home costs by area", () => {
+    const result = calculateExpenses({
+      revenue: 80_000,
+      homeOfficeSize: 200,
+      totalHomeSize: 1_600,
+      homeExpenses: 24_000,
+    });
+    expect(result.homeOfficePercentage).toBe(12.5);
+    expect(result.homeOfficeDeduction).toBe(3_000);
+    expect(result.homeOfficeCarryforward).toBe(0);
+  });
+
+  it("cannot create or increase a loss, and carries the excess forward", () => {
+    const result = calculateExpenses({
+      revenue: 20_000,
+      currentExpenses: 17_000,
+      homeOfficeSize: 250,
+      totalHomeSize: 1_000,
+      homeExpenses: 24_000,
+    });
+    // 25% of $24,000 is $6,000, but only $3,000 of income is left
+    expect(result.homeOfficeDeduction).toBe(3_000);
+    expect(result.homeOfficeCarryforward).toBe(3_000);
+    expect(result.netBusinessIncome).toBe(0);
+  });
+
+  it("is nothing when the business already runs at a loss", () => {
+    const result = calculateExpenses({
+      revenue: 10_000,
+      currentExpenses: 12_000,
+      homeOfficeSize: 100,
+      totalHomeSize: 1_000,
+      homeExpenses: 20_000,
+    });
+    expect(result.homeOfficeDeduction).toBe(0);
+    expect(result.homeOfficeCarryforward).toBe(2_000);
+  });
+});
+
+describe("meals and entertainment", () => {
+  it("deducts 50% of what was spent", () => {
+    const result = calculateExpenses({ revenue: 50_000, monthlyMeals: 300 });
+    expect(result.mealsDeduction).toBe(1_800);
+  });
+});
+
+describe("motor vehicle expenses", () => {
+  it("matches the T4002 example: 15,000 of 20,000 km on $3,500 of costs", () => {
+    const result = calculateExpenses({ revenue: 60_000, vehicleExpenses: 3_500, vehicleBusinessUse: 75 });
+    expect(result.vehicleDeduction).toBe(2_625);
+  });
+
+  it("prorates vehicle CCA by the same business-use share", () => {
+    const result = calculateExpenses({
+      revenue: 60_000,
+      vehicleBusinessUse: 75,
+      equipment: [{ description: "Van", cost: 30_000, ccaClass: "10" }],
+    });
+    // $30,000 x 30%, of which 75% is business use; the full $9,000 comes off UCC
+    expect(result.equipment[0].deduction).toBe(6_750);
+    expect(result.equipment[0].closingUCC).toBe(21_000);
+  });
+
+  it("leaves equipment other than vehicles at 100%", () => {
+    const result = calculateExpenses({
+      revenue: 60_000,
+      vehicleBusinessUse: 40,
+      equipment: [{ cost: 5_000, ccaClass: "8" }],
+    });
+    expect(result.equipment[0].businessUse).toBe(100);
+    expect(result.equipment[0].deduction).toBe(1_000);
+  });
+});
+
+describe("class 10.1 passenger vehicles", () => {
+  it.each([
+    [2022, 30_000],
+    [2023, 34_000],
+    [2024, 36_000],
+  ])("limits the capital cost for %i to $%i", (year, limit) => {
+    expect(passengerVehicleCostLimit(year)).toBe(limit);
+  });
+
+  it("claims CCA on the limit only", () => {
+    const [car] = calculateEquipmentDeductions([{ cost: 50_000, ccaClass: "10.1" }], 2024, { vehicleBusinessUse: 80 });
+    expect(car.capitalCost).toBe(36_000);
+    // $36,000 x 30% = $10,800, 80% of it deductible
+    expect(car.deduction).toBe(8_640);
+    expect(car.closingUCC).toBe(25_200);
+  });
+
+  it("applies the enhanced first-year allowance to the limit in 2023", () => {
+    const [car] = calculateEquipmentDeductions([{ cost: 40_000, ccaClass: "10.1" }], 2023);
+    // $34,000 x 30% x 1.5
+    expect(car.deduction).toBe(15_300);
+  });
+});
+
+describe("first-year capital cost allowance", () => {
+  // $10,000 of property in each class. 2018 and 2028 have the half-year rule;
+  // the Accelerated Investment Incentive gives 1.5x the rate for 2019 to 2023
+  // and suspends the half-year rule for 2024 to 2027. Class 12's 100% rate
+  // caps the claim at the cost.
+  const cases: Array<[CCAClass, number, number]> = [
+    ["8", 2018, 1_000], ["8", 2023, 3_000], ["8", 2024, 2_000], ["8", 2028, 1_000],
+    ["10", 2018, 1_500], ["10", 2023, 4_500], ["10", 2024, 3_000], ["10", 2028, 1_500],
+    ["10.1", 2018, 1_500], ["10.1", 2023, 4_500], ["10.1", 2024, 3_000], ["10.1", 2028, 1_500],
+    ["12", 2018, 5_000], ["12", 2023, 10_000], ["12", 2024, 10_000], ["12", 2028, 5_000],
+    ["50", 2018, 2_750], ["50", 2023, 8_250], ["50", 2024, 5_500], ["50", 2028, 2_750],
+  ];
+
+  it.each(cases)("class %s in %i is $%i", (ccaClass, year, expected) => {
+    const [item] = calculateEquipmentDeductions([{ cost: 10_000, ccaClass }], year);
+    expect(item.method).toBe("cca");
+    expect(item.deduction).toBe(expected);
+    expect(item.closingUCC).toBe(10_000 - expected);
+  });
+});
+
+describe("immediate expensing", () => {
+  it("deducts the full cost in 2024", () => {
+    const [computer] = calculateEquipmentDeductions([{ cost: 3_000, ccaClass: "50" }], 2024, { immediateExpensing: true });
+    expect(computer.method).toBe("immediate");
+    expect(computer.deduction).toBe(3_000);
+    expect(computer.closingUCC).toBe(0);
+  });
+
+  it("is ignored after the program ends", () => {
+    const [computer] = calculateEquipmentDeductions([{ cost: 3_000, ccaClass: "50" }], 2025, { immediateExpensing: true });
+    expect(computer.method).toBe("cca");
+    expect(computer.deduction).toBe(1_650);
+  });
+
+  it("ended a year earlier for CCPCs", () => {
+    const [computer] = calculateEquipmentDeductions([{ cost: 3_000, ccaClass: "50" }], 2024, { immediateExpensing: true, taxpayer: "ccpc" });
+    expect(computer.method).toBe("cca");
+  });
+
+  it("is rejected as input outside the program years", () => {
+    const parsed = expenseInputSchema.safeParse({ revenue: 50_000, immediateExpensing: true, year: 2021 });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.errors.map(error => error.path.join("."))).toContain("immediateExpensing");
+  });
+});
@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { calculatePersonalTax } from "./owner-pay";
+import { DEFAULT_TAX_CONTEXT, TAX_PROVINCES, hasTaxTable, type TaxContext } from "./tax-tables";
+
+// Business expense deductions for a self-employed owner, computed from the
+// CRA rules rather than estimated. Amounts are yearly dollars, rounded to
+// the cent.
+
+// Share of business meals and entertainment that is deductible
+export const MEALS_DEDUCTIBLE_SHARE = 0.5;
+
+// Immediate expensing limit per tax year, shared by all eligible property
+export const IMMEDIATE_EXPENSING_LIMIT = 1_500_000;
+
+// Immediate expensing was temporary: it covers eligible property that became
+// available for use by the end of 2024 for individuals (acquired from 2022)
+// and by the end of 2023 for CCPCs (acquired after April 18, 2021)
+export const IMMEDIATE_EXPENSING_YEARS = {
+  individual: { from: 2022, to: 2024 },
+  ccpc: { from: 2021, to: 2023 },
+} as const;
+
+export type ExpensingTaxpayer = keyof typeof IMMEDIATE_EXPENSING_YEARS;
+
+export function immediateExpensingAvailable(year: number, taxpayer: ExpensingTaxpayer = "individual"): boolean {
+  const { from, to } = IMMEDIATE_EXPENSING_YEARS[taxpayer];
+  return year >= from && year <= to;
+}
+
+// Capital cost allowance classes for the equipment a small business buys
+export const CCA_CLASSES = {
+  "8": { rate: 0.2, description: "Furniture, fixtures and most other equipment" },
+  "10": { rate: 0.3, description: "Vehicles, other than passenger vehicles over the class 10.1 cost limit" },
+  "10.1": { rate: 0.3, description: "Passenger vehicles costing more than the class 10.1 cost limit" },
+  "12": { rate: 1, description: "Software, and tools under $500" },
+  "50": { rate: 0.55, description: "Computer hardware and systems software" },
+} as const;
+
+export type CCAClass = keyof typeof CCA_CLASSES;
+
+const CCA_CLASS_IDS = Object.keys(CCA_CLASSES) as [CCAClass, ...CCAClass[]];
+
+// Vehicle CCA is deductible only for the business-use share
+const VEHICLE_CLASSES: readonly CCAClass[] = ["10", "10.1"];
+
+// Most of a class 10.1 passenger vehicle's cost, before sales tax, that CCA
+// can be claimed on, by the year the vehicle was bought
+export function passengerVehicleCostLimit(year: number): number {
+  if (year >= 2024) return 36_000;
+  if (year === 2023) return 34_000;
+  return 30_000;
+}
+
+// First-year CCA as a multiple of the class rate. The half-year rule halves
+// it; the Accelerated Investment Incentive raised it to 1.5x for property
+// available for use from 2019 to 2023 and suspends the half-year rule from
+// 2024 to 2027.
+export function firstYearCCAFactor(year: number): number {
+  if (year >= 2019 && year <= 2023) return 1.5;
+  if (year >= 2024 && year <= 2027) return 1;
+  return 0.5;
+}
+
+const amount = (description: string) => z.number().nonnegative().default(0).describe(description);
+
+export const expenseInputSchema = z.object({
+  revenue: z.number().nonnegative().describe("Yearly business revenue, in dollars"),
+  currentExpenses: amount("Other business expenses already claimed this year, in dollars"),
+  homeOfficeSize: amount("Area of the home used as the workspace, in square feet"),
+  totalHomeSize: amount("Total finished area of the home, in square feet"),
+  homeExpenses: amount("Yearly home costs: rent or mortgage interest, utilities, insurance, property tax and maintenance, in dollars"),
+  vehicleBusinessUse: z.number().min(0).max(100).default(0).describe("Business kilometres as a percentage of all kilometres driven; applies to vehicle running costs and vehicle CCA"),
+  vehicleExpenses: amount("Yearly vehicle running costs: fuel, insurance, repairs, licence and lease payments, in dollars"),
+  monthlyMeals: amount("Business meals and entertainment per month, in dollars"),
+  professionalDevelopment: amount("Yearly courses, conferences and professional dues, in dollars"),
+  equipment: z.array(z.object({
+    description: z.string().default("Equipment"),
+    cost: z.number().nonnegative().describe("Purchase cost, in dollars; before sales tax for a class 10.1 passenger vehicle"),
+    ccaClass: z.enum(CCA_CLASS_IDS).describe("CCA class: 8 furniture and equipment, 10 vehicles, 10.1 passenger vehicles over the cost limit ($36,000 from 2024), 12 software and small tools, 50 computer hardware"),
+  })).default([]).describe("Equipment bought this year"),
+  immediateExpensing: z.boolean().default(false).describe("Deduct eligible equipment in full this year instead of claiming CCA; only for property available for use from 2022 to 2024"),
+  year: z.number().int().default(DEFAULT_TAX_CONTEXT.year).describe("Tax year"),
+  province: z.enum(TAX_PROVINCES).default(DEFAULT_TAX_CONTEXT.province).describe("Province of residence"),
+}).superRefine((input, ctx) => {
+  if (input.homeOfficeSize > input.totalHomeSize) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["homeOfficeSize"], message: "The home office cannot be larger than the home" });
+  }
+  if (input.immediateExpensing && !immediateExpensingAvailable(input.year)) {
+    const { from, to } = IMMEDIATE_EXPENSING_YEARS.individual;
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["immediateExpensing"], message: `Immediate expensing only applies to property available for use from ${from} to ${to}` });
+  }
+  if (!hasTaxTable(input)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["year"], message: `No ${input.year} tax rates for ${input.province}` });
+  }
+});
+
+export type ExpenseInput = z.input<typeof expenseInputSchema>;
+
+export interface EquipmentDeduction {
+  description: string;
+  cost: number;
+  ccaClass: CCAClass;
+  // What CCA is claimed on: the cost, capped at the limit for class 10.1
+  capitalCost: number;
+  // Percentage of the CCA that is deductible; the business-use share for
+  // vehicles, otherwise 100
+  businessUse: number;
+  // "immediate" when deducted in full under immediate expensing
+  method: "cca" | "immediate";
+  deduction: number;
+  // Undepreciated capital cost carried into next year
+  closingUCC: number;
+}
+
+export interface ExpenseResult extends TaxContext {
+  homeOfficePercentage: number;
+  homeOfficeDeduction: number;
+  // Home office costs over the income limit, deductible in a later year
+  homeOfficeCarryforward: number;
+  vehicleDeduction: number;
+  mealsDeduction: number;
+  professionalDevelopmentDeduction: number;
+  equipment: EquipmentDeduction[];
+  equipmentDeduction: number;
+  totalDeductions: number;
+  // Revenue less currentExpenses and totalDeductions
+  netBusinessIncome: number;
+  // Personal tax saved by the deductions at this income
+  taxSavings: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateHomeOfficePercentage(homeOfficeSize: number, totalHomeSize: number): number {
+  return totalHomeSize > 0 ? Math.min(homeOfficeSize / totalHomeSize, 1) * 100 : 0;
+}
+
+// First-year CCA, or the full cost for items under immediate expensing until
+// the yearly limit runs out. Immediate expensing is ignored outside the
+// taxpayer's program years. As on the CRA's CCA charts, a vehicle's personal
+// share of the allowance is not deductible but still comes off its UCC.
+export function calculateEquipmentDeductions(
+  equipment: Array<{ description?: string; cost: number; ccaClass: CCAClass }>,
+  year: number,
+  options: { immediateExpensing?: boolean; vehicleBusinessUse?: number; taxpayer?: ExpensingTaxpayer } = {}
+): EquipmentDeduction[] {
+  const { immediateExpensing = false, vehicleBusinessUse = 100, taxpayer = "individual" } = options;
+  let expensingLeft = immediateExpensing && immediateExpensingAvailable(year, taxpayer) ? IMMEDIATE_EXPENSING_LIMIT : 0;
+
+  return equipment.map(item => {
+    const capitalCost = item.ccaClass === "10.1" ? Math.min(item.cost, passengerVehicleCostLimit(year)) : item.cost;
+    const businessUse = VEHICLE_CLASSES.includes(item.ccaClass) ? vehicleBusinessUse : 100;
+
+    const expensed = Math.min(capitalCost, expensingLeft);
+    expensingLeft -= expensed;
+
+    const remaining = capitalCost - expensed;
+    const cca = Math.min(remaining * CCA_CLASSES[item.ccaClass].rate * firstYearCCAFactor(year), remaining);
+    const allowance = expensed + cca;
+
+    return {
+      description: item.description || "Equipment",
+      cost: roundCents(item.cost),
+      ccaClass: item.ccaClass,
+      capitalCost: roundCents(capitalCost),
+      businessUse,
+      method: expensed > 0 ? "immediate" : "cca",
+      deduction: roundCents(allowance * (businessUse / 100)),
+      closingUCC: roundCents(capitalCost - allowance),
+    };
+  });
+}
+
+export function calculateExpenses(input: ExpenseInput): ExpenseResult {
+  const parsed = expenseInputSchema.parse(input);
+  const context: TaxContext = { year: parsed.year, province: parsed.province };
+
+  const vehicleDeduction = parsed.vehicleExpenses * (parsed.vehicleBusinessUse / 100);
+  const mealsDeduction = parsed.monthlyMeals * 12 * MEALS_DEDUCTIBLE_SHARE;
+  const professionalDevelopmentDeduction = parsed.professionalDevelopment;
+  const equipment = calculateEquipmentDeductions(parsed.equipment, parsed.year, {
+    immediateExpensing: parsed.immediateExpensing,
+    vehicleBusinessUse: parsed.vehicleBusinessUse,
+  });
+  const equipmentDeduction = equipment.reduce((total, item) => total + item.deduction, 0);
+
+  // Workspace-in-home costs cannot create or increase a business loss; the
+  // excess carries forward
+  const homeOfficePercentage = calculateHomeOfficePercentage(parsed.homeOfficeSize, parsed.totalHomeSize);
+  const homeOfficeCosts = parsed.homeExpenses * (homeOfficePercentage / 100);
+  const incomeBeforeHomeOffice = parsed.revenue - parsed.currentExpenses
+    - vehicleDeduction - mealsDeduction - professionalDevelopmentDeduction - equipmentDeduction;
+  const homeOfficeDeduction = Math.min(homeOfficeCosts, Math.max(incomeBeforeHomeOffice, 0));
+
+  const totalDeductions = homeOfficeDeduction + vehicleDeduction + mealsDeduction
+    + professionalDevelopmentDeduction + equipmentDeduction;
+  const incomeBefore = Math.max(parsed.revenue - parsed.currentExpenses, 0);
+  const netBusinessIncome = parsed.revenue - parsed.currentExpenses - totalDeductions;
+
+  return {
+    ...context,
+    homeOfficePercentage: roundCents(homeOfficePercentage),
+    homeOfficeDeduction: roundCents(homeOfficeDeduction),
+    homeOfficeCarryforward: roundCents(homeOfficeCosts - homeOfficeDeduction),
+    vehicleDeduction: roundCents(vehicleDeduction),
+    mealsDeduction: roundCents(mealsDeduction),
+    professionalDevelopmentDeduction: roundCents(professionalDevelopmentDeduction),
+    equipment,
+    equipmentDeduction: roundCents(equipmentDeduction),
+    totalDeductions: roundCents(totalDeductions),
+    netBusinessIncome: roundCents(netBusinessIncome),
+    taxSavings: roundCents(
+      calculatePersonalTax(incomeBefore, context) - calculatePersonalTax(Math.max(netBusinessIncome, 0), context)
+    ),
+  };
+}
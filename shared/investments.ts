@@ -0,0 +1,209 @@
+import { z } from "zod";
+import { calculateDividendTax, calculatePersonalTax } from "./owner-pay";
+import { DEFAULT_TAX_CONTEXT, TAX_PROVINCES, getTaxTable, hasTaxTable, type TaxContext } from "./tax-tables";
+
+// Where an incorporated owner should invest business income: left in the
+// corporation, paid out as salary and invested personally, or paid out as
+// salary and put in an RRSP. Growth is treated as capital gains realized when
+// the money comes out, and everything comes out in the final year on top of
+// the owner's other retirement income. CPP and EI on the salary are left out.
+
+export const investmentInputSchema = z.object({
+  investmentAmount: z.number().positive().describe("Business income available to invest, before any tax, in dollars"),
+  rrspRoom: z.number().nonnegative().default(0).describe("Unused RRSP contribution room, in dollars"),
+  currentIncome: z.number().nonnegative().describe("The owner's other taxable income this year, in dollars"),
+  retirementIncome: z.number().nonnegative().describe("The owner's expected other taxable income in the year the money is taken out, in dollars"),
+  years: z.number().int().min(1).max(50).describe("Years until the money is taken out"),
+  annualReturn: z.number().min(-20).max(30).default(7).describe("Expected yearly return, as a percentage"),
+  inflationRate: z.number().min(0).max(20).default(2).describe("Expected yearly inflation, as a percentage"),
+  year: z.number().int().default(DEFAULT_TAX_CONTEXT.year).describe("Tax year the money is earned"),
+  province: z.enum(TAX_PROVINCES).default(DEFAULT_TAX_CONTEXT.province).describe("Province of residence"),
+}).refine(hasTaxTable, input => ({ message: `No ${input.year} tax rates for ${input.province}` }));
+
+export type InvestmentInput = z.input<typeof investmentInputSchema>;
+
+export const INVESTMENT_STRATEGIES = {
+  corporate: "Corporate Investment",
+  personal: "Personal Investment",
+  rrsp: "RRSP",
+} as const;
+
+export type InvestmentStrategy = keyof typeof INVESTMENT_STRATEGIES;
+
+export interface InvestmentStrategyResult {
+  strategy: InvestmentStrategy;
+  label: string;
+  // What goes into the investments after the tax paid to get it there
+  initialInvestment: number;
+  upfrontTax: number;
+  // Balance at the end, before the tax on taking it out
+  finalValue: number;
+  exitTax: number;
+  totalTax: number;
+  afterTaxValue: number;
+  // afterTaxValue in today's dollars
+  realAfterTaxValue: number;
+  // totalTax as a percentage of the income plus growth
+  effectiveTaxRate: number;
+}
+
+// After-tax value of each strategy if cashed out at the end of `year`
+export interface InvestmentProjectionRow {
+  year: number;
+  corporate: number;
+  personal: number;
+  rrsp: number;
+  corporateReal: number;
+  personalReal: number;
+  rrspReal: number;
+}
+
+export interface InvestmentResult extends TaxContext {
+  years: number;
+  annualReturn: number;
+  inflationRate: number;
+  strategies: InvestmentStrategyResult[];
+  projection: InvestmentProjectionRow[];
+  // The strategy with the highest afterTaxValue
+  bestStrategy: InvestmentStrategy;
+}
+
+interface Outcome {
+  initialInvestment: number;
+  upfrontTax: number;
+  finalValue: number;
+  exitTax: number;
+  afterTaxValue: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Tax on `amount` of ordinary income received on top of `baseIncome`
+function incrementalTax(amount: number, baseIncome: number, context: TaxContext): number {
+  return calculatePersonalTax(baseIncome + amount, context) - calculatePersonalTax(baseIncome, context);
+}
+
+function capitalGainsTax(gain: number, baseIncome: number, context: TaxContext): number {
+  if (gain <= 0) return 0;
+  return incrementalTax(gain * getTaxTable(context).capitalGainsInclusion, baseIncome, context);
+}
+
+// Left in the corporation. The taxable half of the gain is taxed at the
+// investment income rate, part of which comes back as a dividend refund;
+// the untaxed half is paid out as a tax-free capital dividend and the rest
+// as non-eligible dividends.
+function corporateOutcome(input: z.infer<typeof investmentInputSchema>, growth: number, context: TaxContext): Outcome {
+  const table = getTaxTable(context);
+  const upfrontTax = input.investmentAmount * (table.federal.smallBusinessRate + table.provincial.smallBusinessRate);
+  const initialInvestment = input.investmentAmount - upfrontTax;
+  const finalValue = initialInvestment * growth;
+  const gain = finalValue - initialInvestment;
+
+  const taxableGain = Math.max(gain, 0) * table.capitalGainsInclusion;
+  const investmentTax = taxableGain * (table.federal.investmentIncomeRate + table.provincial.investmentIncomeRate);
+  const rdtoh = taxableGain * table.corporateInvestment.refundableRate;
+  const capitalDividend = Math.max(gain, 0) - taxableGain;
+
+  // The refund is paid out with the dividends that trigger it
+  const { dividendRefundRate } = table.corporateInvestment;
+  const beforeRefund = finalValue - investmentTax - capitalDividend;
+  const withFullRefund = beforeRefund + rdtoh;
+  const taxableDividends = withFullRefund * dividendRefundRate >= rdtoh
+    ? withFullRefund
+    : beforeRefund / (1 - dividendRefundRate);
+  const dividendRefund = taxableDividends - beforeRefund;
+  const dividendTax = calculateDividendTax(taxableDividends, input.retirementIncome, context).tax;
+
+  return {
+    initialInvestment,
+    upfrontTax,
+    finalValue,
+    exitTax: investmentTax - dividendRefund + dividendTax,
+    afterTaxValue: capitalDividend + taxableDividends - dividendTax,
+  };
+}
+
+// Paid out as salary; up to rrspRoom goes into an RRSP and the deduction
+// lowers the tax on the salary. Whatever is left after tax is invested
+// personally.
+function personalOutcome(
+  input: z.infer<typeof investmentInputSchema>,
+  growth: number,
+  context: TaxContext,
+  rrspContribution: number
+): Outcome {
+  const upfrontTax = incrementalTax(input.investmentAmount - rrspContribution, input.currentIncome, context);
+  const nonRegistered = input.investmentAmount - rrspContribution - upfrontTax;
+
+  const rrspValue = rrspContribution * growth;
+  const nonRegisteredValue = nonRegistered * growth;
+  const withdrawalTax = rrspValue > 0 ? incrementalTax(rrspValue, input.retirementIncome, context) : 0;
+  const gainsTax = capitalGainsTax(nonRegisteredValue - nonRegistered, input.retirementIncome + rrspValue, context);
+
+  return {
+    initialInvestment: rrspContribution + nonRegistered,
+    upfrontTax,
+    finalValue: rrspValue + nonRegisteredValue,
+    exitTax: withdrawalTax + gainsTax,
+    afterTaxValue: rrspValue + nonRegisteredValue - withdrawalTax - gainsTax,
+  };
+}
+
+function strategyOutcomes(input: z.infer<typeof investmentInputSchema>, years: number): Record<InvestmentStrategy, Outcome> {
+  const context: TaxContext = { year: input.year, province: input.province };
+  const growth = Math.pow(1 + input.annualReturn / 100, years);
+  return {
+    corporate: corporateOutcome(input, growth, context),
+    personal: personalOutcome(input, growth, context, 0),
+    rrsp: personalOutcome(input, growth, context, Math.min(input.investmentAmount, input.rrspRoom)),
+  };
+}
+
+export function calculateInvestmentStrategies(input: InvestmentInput): InvestmentResult {
+  const parsed = investmentInputSchema.parse(input);
+  const deflator = (years: number) => Math.pow(1 + parsed.inflationRate / 100, years);
+  const strategyIds = Object.keys(INVESTMENT_STRATEGIES) as InvestmentStrategy[];
+
+  const projection = Array.from({ length: parsed.years }, (_, i) => {
+    const year = i + 1;
+    const outcomes = strategyOutcomes(parsed, year);
+    const row = { year } as InvestmentProjectionRow;
+    for (const id of strategyIds) {
+      row[id] = roundCents(outcomes[id].afterTaxValue);
+      row[`${id}Real`] = roundCents(outcomes[id].afterTaxValue / deflator(year));
+    }
+    return row;
+  });
+
+  const final = strategyOutcomes(parsed, parsed.years);
+  const strategies = strategyIds.map((id): InvestmentStrategyResult => {
+    const outcome = final[id];
+    const totalTax = outcome.upfrontTax + outcome.exitTax;
+    const grossValue = outcome.afterTaxValue + totalTax;
+    return {
+      strategy: id,
+      label: INVESTMENT_STRATEGIES[id],
+      initialInvestment: roundCents(outcome.initialInvestment),
+      upfrontTax: roundCents(outcome.upfrontTax),
+      finalValue: roundCents(outcome.finalValue),
+      exitTax: roundCents(outcome.exitTax),
+      totalTax: roundCents(totalTax),
+      afterTaxValue: roundCents(outcome.afterTaxValue),
+      realAfterTaxValue: roundCents(outcome.afterTaxValue / deflator(parsed.years)),
+      effectiveTaxRate: grossValue > 0 ? roundCents((totalTax / grossValue) * 100) : 0,
+    };
+  });
+
+  const best = strategies.reduce((top, current) => (current.afterTaxValue > top.afterTaxValue ? current : top));
+
+  return {
+    year: parsed.year,
+    province: parsed.province,
+    years: parsed.years,
+    annualReturn: parsed.annualReturn,
+    inflationRate: parsed.inflationRate,
+    strategies,
+    projection,
+    bestStrategy: best.strategy,
+  };
+}
@@ -0,0 +1,99 @@
+import type { Message, MessageBranch } from "./schema";
+
+// Messages form a tree through parentId: editing a prompt or regenerating a
+// reply adds a sibling instead of overwriting, and the conversation shows one
+// root-to-leaf path at a time. Messages are expected oldest first.
+
+// Messages saved before the tree existed have no parentId. A legacy reply
+// answers the nearest user message before it; any other legacy message
+// follows the message saved just before it.
+export function resolveParentId(message: Message, messages: Message[]): number | null {
+  if (message.parentId != null) return message.parentId;
+
+  const index = messages.indexOf(message);
+  if (message.role === "assistant") {
+    for (let i = index - 1; i >= 0; i--) {
+      if (messages[i].role === "user") return messages[i].id;
+    }
+    return null;
+  }
+  return index > 0 ? messages[index - 1].id : null;
+}
+
+export interface MessageTree {
+  byId: Map<number, Message>;
+  parentOf: Map<number, number | null>;
+  // Children per parent id, oldest first; top-level messages are under null
+  childrenOf: Map<number | null, Message[]>;
+}
+
+export function buildMessageTree(messages: Message[]): MessageTree {
+  const byId = new Map<number, Message>();
+  const parentOf = new Map<number, number | null>();
+  const childrenOf = new Map<number | null, Message[]>();
+
+  for (const message of messages) {
+    byId.set(message.id, message);
+  }
+  for (const message of messages) {
+    let parentId = resolveParentId(message, messages);
+    // A dangling parent (e.g. deleted data) makes the message top-level
+    if (parentId != null && !byId.has(parentId)) parentId = null;
+
+    parentOf.set(message.id, parentId);
+    const siblings = childrenOf.get(parentId) || [];
+    siblings.push(message);
+    childrenOf.set(parentId, siblings);
+  }
+
+  return { byId, parentOf, childrenOf };
+}
+
+// Follows the newest child down from a message to a leaf
+export function latestLeafId(tree: MessageTree, messageId: number): number {
+  let current = messageId;
+  let children = tree.childrenOf.get(current);
+  while (children && children.length > 0) {
+    current = children[children.length - 1].id;
+    children = tree.childrenOf.get(current);
+  }
+  return current;
+}
+
+// Root-to-message path, inclusive
+export function pathTo(tree: MessageTree, messageId: number): Message[] {
+  const path: Message[] = [];
+  let current: number | null | undefined = messageId;
+  while (current != null && tree.byId.has(current)) {
+    path.unshift(tree.byId.get(current)!);
+    current = tree.parentOf.get(current);
+  }
+  return path;
+}
+
+// The path ending at activeLeafId, or at the newest message when no leaf has
+// been chosen (or the chosen one no longer exists)
+export function activePath(messages: Message[], activeLeafId: number | null): Message[] {
+  if (messages.length === 0) return [];
+
+  const tree = buildMessageTree(messages);
+  const leafId = activeLeafId != null && tree.byId.has(activeLeafId)
+    ? activeLeafId
+    : messages[messages.length - 1].id;
+  return pathTo(tree, leafId);
+}
+
+// Sibling information for every message on the path that has alternatives
+export function branchesAlong(tree: MessageTree, path: Message[]): Record<number, MessageBranch> {
+  const branches: Record<number, MessageBranch> = {};
+  for (const message of path) {
+    const siblings = tree.childrenOf.get(tree.parentOf.get(message.id) ?? null) || [];
+    if (siblings.length > 1) {
+      branches[message.id] = {
+        siblingIds: siblings.map(sibling => sibling.id),
+        index: siblings.indexOf(message),
+      };
+    }
+  }
+  return branches;
+}
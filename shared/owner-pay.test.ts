@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { OWNER_PAY_STRATEGIES, calculateOwnerPay, ownerPayInputSchema } from "./owner-pay";
+
+// An Alberta corporation in 2024 with $150,000 of revenue and 20% expenses,
+// so $120,000 of net business income
+const corporation = { revenue: 150_000, expensesPercentage: 20, province: "AB" as const, year: 2024 };
+
+const strategyOf = (result: ReturnType<typeof calculateOwnerPay>, name: string) =>
+  result.strategies.find(strategy => strategy.strategy === name)!;
+
+describe("owner pay input", () => {
+  it("accepts a withdrawal of all the income left after expenses", () => {
+    const parsed = ownerPayInputSchema.safeParse({ revenue: 200_000, expensesPercentage: 25, withdrawalAmount: 150_000 });
+    expect(parsed.success).toBe(true);
+  });
+
+  it("rejects a withdrawal larger than the income left after expenses", () => {
+    const parsed = ownerPayInputSchema.safeParse({ revenue: 200_000, expensesPercentage: 25, withdrawalAmount: 150_001 });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.errors.map(error => error.path.join("."))).toEqual(["withdrawalAmount"]);
+  });
+});
+
+describe("an $80,000 salary in Alberta in 2024", () => {
+  const result = calculateOwnerPay({ ...corporation, withdrawalAmount: 80_000 });
+  const salary = strategyOf(result, "100% Salary");
+
+  it("pays CPP up to the YAMPE and EI up to the maximum insurable earnings", () => {
+    // CPP: ($68,500 - $3,500) x 5.95% + ($73,200 - $68,500) x 4%
+    expect(salary.cppEmployee).toBe(4_055.5);
+    expect(salary.cppContributions).toBe(8_111);
+    // EI: $63,200 x 1.66%
+    expect(salary.eiEmployee).toBe(1_049.12);
+  });
+
+  it("pays federal and Alberta income tax after the basic personal amounts", () => {
+    // Federal: $55,867 x 15% + $24,133 x 20.5% - $15,705 x 15% = $10,971.57
+    // Alberta: $80,000 x 10% - $21,885 x 10% = $5,811.50
+    expect(salary.personalTax).toBeCloseTo(16_783.07, 1);
+  });
+
+  it("leaves the rest of the income to the small business rate", () => {
+    // ($120,000 - $80,000 - $4,055.50 CPP - $1,468.77 EI) x 11%
+    expect(salary.corporateTax).toBe(3_792.33);
+    expect(salary.corporateRetained).toBe(30_683.4);
+    expect(salary.shortfall).toBe(0);
+    expect(salary.rrspRoom).toBe(14_400);
+  });
+
+  it("taxes the same amount as non-eligible dividends at the dividend rates", () => {
+    const dividend = strategyOf(result, "100% Dividend");
+    // $92,000 grossed up; federal $5,123.87 and Alberta $5,005.90 after credits
+    expect(dividend.personalTax).toBe(10_129.77);
+    expect(dividend.corporateTax).toBe(13_200);
+    expect(result.lowestTaxStrategy).toBe("100% Dividend");
+  });
+
+  it("compares every strategy", () => {
+    expect(result.strategies.map(strategy => strategy.strategy)).toEqual(OWNER_PAY_STRATEGIES.map(({ strategy }) => strategy));
+  });
+});
+
+describe("dividends above the after-tax earnings", () => {
+  it("pays only the earnings left after corporate tax and reports the rest as a shortfall", () => {
+    const result = calculateOwnerPay({ ...corporation, withdrawalAmount: 120_000 });
+    const dividend = strategyOf(result, "100% Dividend");
+
+    // $120,000 less 11% corporate tax leaves $106,800 to pay out
+    expect(dividend.dividends).toBe(106_800);
+    expect(dividend.shortfall).toBe(13_200);
+    expect(dividend.corporateRetained).toBe(0);
+  });
+
+  it("leaves strategies the corporation cannot pay out of the lowest-tax pick", () => {
+    const result = calculateOwnerPay({ ...corporation, withdrawalAmount: 110_000 });
+    const dividend = strategyOf(result, "100% Dividend");
+    const cheapest = Math.min(...result.strategies.map(strategy => strategy.totalTax));
+
+    expect(dividend.shortfall).toBe(3_200);
+    expect(dividend.totalTax).toBe(cheapest);
+    expect(result.lowestTaxStrategy).toBe("100% Salary");
+  });
+
+  it("has no lowest-tax pick when no strategy can be paid", () => {
+    const result = calculateOwnerPay({ ...corporation, withdrawalAmount: 120_000 });
+    expect(result.strategies.every(strategy => strategy.shortfall > 0)).toBe(true);
+    expect(result.lowestTaxStrategy).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import {
+  DEFAULT_TAX_CONTEXT,
+  TAX_PROVINCES,
+  getTaxTable,
+  hasTaxTable,
+  type TaxContext,
+  type TaxSchedule,
+} from "./tax-tables";
+
+// Salary vs dividend ("SmartSplit") comparison for the owner of a Canadian
+// small-business corporation. Ported from the SmartSplit calculator; every
+// amount is a plain number of dollars, rounded to the cent. Rates come from
+// the tax table for the given year and province.
+
+// Revenue less business expenses, before paying the owner
+function businessIncome(revenue: number, expensesPercentage: number): number {
+  return revenue - (revenue * expensesPercentage) / 100;
+}
+
+export const ownerPayInputSchema = z.object({
+  revenue: z.number().nonnegative().describe("The corporation's yearly revenue, in dollars"),
+  expensesPercentage: z.number().min(0).max(100).describe("Business expenses as a percentage of revenue, before paying the owner"),
+  withdrawalAmount: z.number().nonnegative().describe("How much the owner wants to take out of the corporation this year, in dollars; at most the income left after expenses"),
+  year: z.number().int().default(DEFAULT_TAX_CONTEXT.year).describe("Tax year"),
+  province: z.enum(TAX_PROVINCES).default(DEFAULT_TAX_CONTEXT.province).describe("Province the owner and corporation are resident in"),
+}).superRefine((input, ctx) => {
+  const netBusinessIncome = businessIncome(input.revenue, input.expensesPercentage);
+  if (input.withdrawalAmount > netBusinessIncome) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["withdrawalAmount"], message: `The withdrawal cannot be more than the business income after expenses ($${netBusinessIncome.toLocaleString("en-CA", { maximumFractionDigits: 2 })})` });
+  }
+  if (!hasTaxTable(input)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["year"], message: `No ${input.year} tax rates for ${input.province}` });
+  }
+});
+
+export type OwnerPayInput = z.input<typeof ownerPayInputSchema>;
+
+export interface PayrollContributions {
+  employee: number;
+  employer: number;
+}
+
+export interface OwnerPayStrategyResult {
+  strategy: string;
+  salary: number;
+  // Dividends paid: at most the earnings left after corporate tax
+  dividends: number;
+  // What the corporation is short of to pay the strategy from this year's
+  // income: salary and the employer's CPP/EI above the income, plus
+  // dividends above the after-tax earnings. Above 0, the strategy cannot be
+  // paid as planned.
+  shortfall: number;
+  corporateTax: number;
+  // Income tax on the salary plus tax on the dividends
+  personalTax: number;
+  cppEmployee: number;
+  eiEmployee: number;
+  // Everything taken out of the owner's pay: personalTax + CPP + EI
+  personalDeductions: number;
+  // Personal tax, corporate tax and both sides of CPP and EI
+  totalTax: number;
+  // What the owner keeps from the withdrawal
+  netIncome: number;
+  // personalDeductions as a percentage of the withdrawal
+  effectiveTaxRate: number;
+  rrspRoom: number;
+  // Employee and employer CPP
+  cppContributions: number;
+  // Left in the corporation after corporate tax and the dividends
+  corporateRetained: number;
+}
+
+export interface OwnerPayResult extends TaxContext {
+  netBusinessIncome: number;
+  strategies: OwnerPayStrategyResult[];
+  // The strategy with the lowest totalTax among those the corporation can
+  // pay in full; null when it cannot pay any of them
+  lowestTaxStrategy: string | null;
+}
+
+// The mixes compared, as the share of the withdrawal paid as salary
+export const OWNER_PAY_STRATEGIES = [
+  { strategy: "100% Salary", salaryShare: 1 },
+  { strategy: "100% Dividend", salaryShare: 0 },
+  { strategy: "50% Salary / 50% Dividend", salaryShare: 0.5 },
+  { strategy: "65% Salary / 35% Dividend", salaryShare: 0.65 },
+];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+function bracketTax(schedule: TaxSchedule, taxableIncome: number): number {
+  const { brackets } = schedule;
+  let tax = 0;
+
+  brackets.forEach((bracket, i) => {
+    const ceiling = brackets[i + 1]?.from ?? Infinity;
+    const taxableInThisBracket = Math.min(taxableIncome, ceiling) - bracket.from;
+    if (taxableInThisBracket > 0) tax += taxableInThisBracket * bracket.rate;
+  });
+
+  return tax;
+}
+
+// Tax for one jurisdiction after the basic personal amount and the dividend
+// tax credit on grossedUpDividends (already included in taxableIncome)
+function scheduleTax(schedule: TaxSchedule, taxableIncome: number, grossedUpDividends: number): number {
+  const credits = schedule.brackets[0].rate * schedule.basicPersonalAmount
+    + grossedUpDividends * schedule.dividendTaxCredit.nonEligible;
+  const basicTax = Math.max(bracketTax(schedule, taxableIncome) - credits, 0);
+  const surtax = (schedule.surtax ?? [])
+    .reduce((total, tier) => total + Math.max(basicTax - tier.over, 0) * tier.rate, 0);
+  return basicTax + surtax;
+}
+
+function incomeTax(taxableIncome: number, grossedUpDividends: number, context: TaxContext): number {
+  const table = getTaxTable(context);
+  return scheduleTax(table.federal, taxableIncome, grossedUpDividends)
+    + scheduleTax(table.provincial, taxableIncome, grossedUpDividends);
+}
+
+// Combined federal and provincial tax on ordinary income
+export function calculatePersonalTax(taxableIncome: number, context: TaxContext): number {
+  return incomeTax(taxableIncome, 0, context);
+}
+
+export function calculateCPPContributions(salary: number, context: TaxContext): PayrollContributions {
+  const { cpp } = getTaxTable(context);
+  const contributoryEarnings = Math.min(Math.max(salary - cpp.basicExemption, 0), cpp.ympe - cpp.basicExemption);
+  const cpp1 = contributoryEarnings * cpp.employeeRate;
+
+  const cpp2Earnings = Math.min(Math.max(salary - cpp.ympe, 0), cpp.yampe - cpp.ympe);
+  const cpp2 = cpp2Earnings * cpp.additionalRate;
+
+  // The employer matches the employee's contribution
+  const employee = cpp1 + cpp2;
+  return { employee, employer: employee };
+}
+
+export function calculateEIContributions(salary: number, context: TaxContext): PayrollContributions {
+  const { ei } = getTaxTable(context);
+  const employee = Math.min(salary, ei.maxInsurableEarnings) * ei.employeeRate;
+  return { employee, employer: employee * ei.employerMultiplier };
+}
+
+// Tax on non-eligible dividends received on top of otherIncome
+export function calculateDividendTax(
+  dividend: number,
+  otherIncome: number,
+  context: TaxContext
+): { tax: number; grossedUp: number } {
+  const grossedUp = dividend * (1 + getTaxTable(context).dividendGrossUp.nonEligible);
+  const tax = incomeTax(otherIncome + grossedUp, grossedUp, context) - calculatePersonalTax(otherIncome, context);
+  return { tax: Math.max(tax, 0), grossedUp };
+}
+
+export function calculateSmartSplitStrategy(
+  strategy: string,
+  salary: number,
+  requestedDividend: number,
+  netBusinessIncome: number,
+  context: TaxContext
+): OwnerPayStrategyResult {
+  const table = getTaxTable(context);
+
+  // Corporate side: salary and the employer's payroll share are deductible
+  const cpp = calculateCPPContributions(salary, context);
+  const ei = calculateEIContributions(salary, context);
+  const totalSalaryExpense = salary + cpp.employer + ei.employer;
+  const corporateIncomeAfterSalary = Math.max(netBusinessIncome - totalSalaryExpense, 0);
+  const corporateTax = corporateIncomeAfterSalary * (table.federal.smallBusinessRate + table.provincial.smallBusinessRate);
+  const retainedEarnings = corporateIncomeAfterSalary - corporateTax;
+
+  // Dividends can only be paid out of after-tax earnings
+  const dividend = Math.min(requestedDividend, retainedEarnings);
+  const shortfall = Math.max(totalSalaryExpense - netBusinessIncome, 0) + (requestedDividend - dividend);
+
+  // Personal side
+  const salaryTax = calculatePersonalTax(salary, context);
+  const dividendTax = calculateDividendTax(dividend, salary, context).tax;
+
+  const personalTax = salaryTax + dividendTax;
+  const personalDeductions = personalTax + cpp.employee + ei.employee;
+  const withdrawal = salary + dividend;
+  const totalTax = personalTax + cpp.employee + ei.employee + cpp.employer + ei.employer + corporateTax;
+
+  return {
+    strategy,
+    salary: roundCents(salary),
+    dividends: roundCents(dividend),
+    shortfall: roundCents(shortfall),
+    corporateTax: roundCents(corporateTax),
+    personalTax: roundCents(personalTax),
+    cppEmployee: roundCents(cpp.employee),
+    eiEmployee: roundCents(ei.employee),
+    personalDeductions: roundCents(personalDeductions),
+    totalTax: roundCents(totalTax),
+    netIncome: roundCents(withdrawal - personalDeductions),
+    effectiveTaxRate: withdrawal > 0 ? roundCents((personalDeductions / withdrawal) * 100) : 0,
+    rrspRoom: roundCents(Math.min(salary * table.rrsp.rate, table.rrsp.limit)),
+    cppContributions: roundCents(cpp.employee + cpp.employer),
+    corporateRetained: roundCents(retainedEarnings - dividend),
+  };
+}
+
+// Compares every mix in OWNER_PAY_STRATEGIES for the same withdrawal
+export function calculateOwnerPay(input: OwnerPayInput): OwnerPayResult {
+  const { revenue, expensesPercentage, withdrawalAmount } = input;
+  const context: TaxContext = {
+    year: input.year ?? DEFAULT_TAX_CONTEXT.year,
+    province: input.province ?? DEFAULT_TAX_CONTEXT.province,
+  };
+  const netBusinessIncome = businessIncome(revenue, expensesPercentage);
+
+  const strategies = OWNER_PAY_STRATEGIES.map(({ strategy, salaryShare }) => {
+    const salary = Math.round(withdrawalAmount * salaryShare);
+    return calculateSmartSplitStrategy(strategy, salary, withdrawalAmount - salary, netBusinessIncome, context);
+  });
+
+  const payable = strategies.filter(strategy => strategy.shortfall === 0);
+  const lowestTax = payable.reduce<OwnerPayStrategyResult | null>(
+    (best, current) => (!best || current.totalTax < best.totalTax ? current : best),
+    null
+  );
+
+  return {
+    ...context,
+    netBusinessIncome: roundCents(netBusinessIncome),
+    strategies,
+    lowestTaxStrategy: lowestTax?.strategy ?? null,
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { insertConversationSchema } from "./schema";
+
+describe("insertConversationSchema", () => {
+  const conversation = { title: "Payroll", userId: 1 };
+
+  it("leaves the generation settings to their defaults", () => {
+    expect(insertConversationSchema.safeParse(conversation).success).toBe(true);
+  });
+
+  it("accepts settings within the bounds", () => {
+    const parsed = insertConversationSchema.safeParse({ ...conversation, temperature: 2, maxOutputTokens: 32_000, topP: 0 });
+    expect(parsed.success).toBe(true);
+  });
+
+  it.each([
+    ["temperature", 50],
+    ["temperature", -1],
+    ["maxOutputTokens", 10_000_000],
+    ["maxOutputTokens", 0],
+    ["maxOutputTokens", 1.5],
+    ["topP", 1.5],
+  ])("rejects %s = %d", (setting, value) => {
+    const parsed = insertConversationSchema.safeParse({ ...conversation, [setting]: value });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.errors[0].path).toEqual([setting]);
+  });
+});
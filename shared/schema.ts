@@ -1,6 +1,7 @@
 
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, real, timestamp, jsonb, vector, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { relations, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,21 +11,126 @@ export const users = pgTable("officegpt_users", {
   password: text("password").notNull(),
 });
 
+// The call a "tool" message answers
+export type ToolCallRecord = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  isError: boolean;
+};
+
+// A knowledge base passage an assistant reply was given, numbered as the
+// reply cites it, e.g. "[2]"
+export type MessageSource = {
+  number: number;
+  documentId: number;
+  chunkId: number;
+  title: string;
+  snippet: string;
+};
+
+// The text search document for a column. The search indexes are built on
+// this expression, and queries must use it too for the index to apply.
+export function searchDocument(column: PgColumn): SQL {
+  return sql`to_tsvector('english', ${column})`;
+}
+
 export const conversations = pgTable("officegpt_conversations", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   userId: integer("user_id").notNull(),
   model: text("model").notNull().default("gpt-4o"),
+  // Generation settings for every reply in the conversation
+  temperature: real("temperature").notNull().default(0.7),
+  maxOutputTokens: integer("max_output_tokens").notNull().default(2000),
+  topP: real("top_p").notNull().default(1),
+  summary: text("summary"), // Running summary of messages that no longer fit the context window
+  summaryThroughMessageId: integer("summary_through_message_id"), // Newest message folded into the summary
+  summaryUpdatedAt: timestamp("summary_updated_at"),
+  activeLeafId: integer("active_leaf_id"), // Last message of the branch being shown; null means the newest message
+  importSource: text("import_source"), // Only for imported conversations: 'chatgpt', 'json' or 'markdown'
+  importKey: text("import_key"), // Identifies the imported original, so importing it again is skipped
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("officegpt_conversations_title_search_idx").using("gin", searchDocument(table.title)),
+  uniqueIndex("officegpt_conversations_import_key_idx").on(table.userId, table.importKey),
+]);
 
 export const messages = pgTable("officegpt_messages", {
   id: serial("id").primaryKey(),
   conversationId: integer("conversation_id").notNull(),
-  role: text("role").notNull(), // 'user' or 'assistant'
+  role: text("role").notNull(), // 'user', 'assistant' or 'tool'
+  content: text("content").notNull(), // For 'tool' messages, the JSON result
+  toolCall: jsonb("tool_call").$type<ToolCallRecord>(), // Only for 'tool' messages
+  attachmentIds: jsonb("attachment_ids").$type<number[]>(), // Only for 'user' messages: files sent with the prompt
+  sources: jsonb("sources").$type<MessageSource[]>(), // Only for assistant messages: knowledge base passages in the prompt
+  model: text("model"), // Only for assistant messages: the model that actually answered
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  latencyMs: integer("latency_ms"), // From sending the request to the full reply, retries included
+  finishReason: text("finish_reason"), // As reported by the provider, lowercased, e.g. 'stop' or 'length'
+  providerRequestId: text("provider_request_id"), // For looking the call up in the provider's logs
+  parentId: integer("parent_id"), // Previous message in the thread; edited prompts and regenerated replies share it with their siblings
+  status: text("status"), // null when complete; 'stopped' or 'error' for a partial assistant reply
+  pinned: boolean("pinned").notNull().default(false), // Always sent to the model, whatever the context budget
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("officegpt_messages_content_search_idx").using("gin", searchDocument(table.content)),
+]);
+
+// A file uploaded to the chat. Its text is extracted once, on upload, and
+// sent to the model along with the message it is attached to.
+export const attachments = pgTable("officegpt_attachments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  conversationId: integer("conversation_id"), // Set when first sent with a message
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  kind: text("kind").notNull(), // 'pdf', 'docx', 'xlsx', 'csv' or 'txt'
+  size: integer("size").notNull(), // Bytes
+  storagePath: text("storage_path").notNull(),
+  extractedText: text("extracted_text").notNull(),
+  truncated: boolean("truncated").notNull().default(false), // Extracted text was cut at ATTACHMENT_MAX_TEXT_CHARS
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Size of every stored embedding; all embedding providers must return it
+export const EMBEDDING_DIMENSIONS = 768;
+
+// A document in the team knowledge base, shared by every user. Its text is
+// split into chunks that are embedded for retrieval.
+export const knowledgeDocuments = pgTable("officegpt_knowledge_documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // Who uploaded it
+  title: text("title").notNull(),
+  filename: text("filename").notNull(),
+  kind: text("kind").notNull(), // 'pdf', 'docx', 'xlsx', 'csv' or 'txt'
+  size: integer("size").notNull(), // Bytes
+  chunkCount: integer("chunk_count").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const knowledgeChunks = pgTable("officegpt_knowledge_chunks", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  position: integer("position").notNull(), // Order within the document, from 0
   content: text("content").notNull(),
-  model: text("model"), // Only for assistant messages
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  embeddingModel: text("embedding_model").notNull(), // Only chunks embedded by the current model are searched
+}, (table) => [
+  index("officegpt_knowledge_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+]);
+
+// One run of a calculator, from its API endpoint or an assistant tool call
+export const calculations = pgTable("officegpt_calculations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // 'owner-pay', 'expenses' or 'investments'
+  inputs: jsonb("inputs").$type<Record<string, unknown>>().notNull(), // After defaults were applied
+  results: jsonb("results").$type<Record<string, unknown>>().notNull(),
+  conversationId: integer("conversation_id"), // Set when the assistant ran it; cleared if the conversation is deleted
+  toolCallId: text("tool_call_id"), // Matches the toolCall.id of the 'tool' message that holds the result
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -45,6 +151,25 @@ export const messagesRelations = relations(messages, ({ one }) => ({
 
 export const usersRelations = relations(users, ({ many }) => ({
   conversations: many(conversations),
+  calculations: many(calculations),
+}));
+
+export const knowledgeDocumentsRelations = relations(knowledgeDocuments, ({ many }) => ({
+  chunks: many(knowledgeChunks),
+}));
+
+export const knowledgeChunksRelations = relations(knowledgeChunks, ({ one }) => ({
+  document: one(knowledgeDocuments, {
+    fields: [knowledgeChunks.documentId],
+    references: [knowledgeDocuments.id],
+  }),
+}));
+
+export const calculationsRelations = relations(calculations, ({ one }) => ({
+  user: one(users, {
+    fields: [calculations.userId],
+    references: [users.id],
+  }),
 }));
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -52,24 +177,145 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// What the chat header's settings popover can change
+export const conversationSettingsSchema = z.object({
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2),
+  maxOutputTokens: z.number().int().min(1).max(32000),
+  topP: z.number().min(0).max(1),
+}).partial();
+
+// A new conversation's settings have the same bounds as later changes
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
+  summary: true,
+  summaryThroughMessageId: true,
+  summaryUpdatedAt: true,
+  activeLeafId: true,
+  importSource: true,
+  importKey: true,
   createdAt: true,
   updatedAt: true,
+}).extend(conversationSettingsSchema.shape);
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  attachmentIds: z.array(z.number().int()).nullish(),
+  sources: z.array(z.object({
+    number: z.number().int(),
+    documentId: z.number().int(),
+    chunkId: z.number().int(),
+    title: z.string(),
+    snippet: z.string(),
+  })).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertKnowledgeDocumentSchema = createInsertSchema(knowledgeDocuments).omit({
+  id: true,
+  createdAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertKnowledgeChunkSchema = createInsertSchema(knowledgeChunks).omit({
+  id: true,
+});
+
+export const insertCalculationSchema = createInsertSchema(calculations).omit({
   id: true,
   createdAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type ConversationSettings = z.infer<typeof conversationSettingsSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+// What the client sees of an attachment
+export type AttachmentInfo = Omit<Attachment, "userId" | "storagePath" | "extractedText">;
+export type InsertKnowledgeDocument = z.infer<typeof insertKnowledgeDocumentSchema>;
+export type KnowledgeDocument = typeof knowledgeDocuments.$inferSelect;
+export type InsertKnowledgeChunk = z.infer<typeof insertKnowledgeChunkSchema>;
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type InsertCalculation = z.infer<typeof insertCalculationSchema>;
+export type Calculation = typeof calculations.$inferSelect;
+
+// Alternatives for a message on the active path: its siblings, oldest first
+export type MessageBranch = {
+  siblingIds: number[];
+  index: number;
+};
 
 export type ConversationWithMessages = Conversation & {
+  // The active branch, root to leaf
   messages: Message[];
+  // Keyed by message id, only for messages on the path that have siblings
+  branches: Record<number, MessageBranch>;
+  // Keyed by attachment id, for every attachment on the path
+  attachments: Record<number, AttachmentInfo>;
+};
+
+// What the context builder sent to the model for one request
+export type ContextReport = {
+  budgetTokens: number;
+  promptTokens: number;
+  includedMessages: number;
+  truncatedMessages: number;
+  truncatedMessageIds: number[];
+  summaryIncluded: boolean;
+};
+
+// Where a search term was found, as character offsets into the snippet
+export type SearchHighlight = {
+  start: number;
+  end: number;
+};
+
+// One hit from GET /api/search: a message, or a conversation whose title
+// matched (messageId is null then)
+export type SearchResult = {
+  conversationId: number;
+  conversationTitle: string;
+  messageId: number | null;
+  role: string | null;
+  model: string | null;
+  createdAt: string;
+  snippet: string;
+  highlights: SearchHighlight[];
+  rank: number;
+};
+
+// The outcome of POST /api/import: what was created and what was left out,
+// with the reason
+export type ImportReport = {
+  imported: Array<{ conversationId: number; title: string; messageCount: number; skippedMessages: number }>;
+  skipped: Array<{ title: string; reason: string }>;
+};
+
+// One model from the server-side catalog, as served by GET /api/models
+export type CatalogModel = {
+  id: string;
+  displayName: string;
+  provider: string;
+  contextLength?: number;
+  // US dollars per token, when known
+  inputPricePerToken?: number;
+  outputPricePerToken?: number;
+  capabilities: {
+    vision: boolean;
+    tools: boolean;
+  };
+  // Retired ids that older conversations still carry
+  aliases: string[];
+  enabled: boolean;
 };
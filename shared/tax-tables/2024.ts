@@ -0,0 +1,98 @@
+import type { TaxTable } from "./index";
+
+// 2024 federal, Alberta, British Columbia and Ontario rates
+export const TAX_TABLE_2024: TaxTable = {
+  year: 2024,
+
+  federal: {
+    brackets: [
+      { from: 0, rate: 0.15 },
+      { from: 55867, rate: 0.205 },
+      { from: 111733, rate: 0.26 },
+      { from: 173205, rate: 0.29 },
+      { from: 246752, rate: 0.33 },
+    ],
+    basicPersonalAmount: 15705,
+    dividendTaxCredit: { eligible: 0.150198, nonEligible: 0.090301 },
+    smallBusinessRate: 0.09,
+    investmentIncomeRate: 0.3867,
+  },
+
+  provinces: {
+    AB: {
+      brackets: [
+        { from: 0, rate: 0.1 },
+        { from: 148269, rate: 0.12 },
+        { from: 177922, rate: 0.13 },
+        { from: 237230, rate: 0.14 },
+        { from: 355845, rate: 0.15 },
+      ],
+      basicPersonalAmount: 21885,
+      dividendTaxCredit: { eligible: 0.0812, nonEligible: 0.0218 },
+      smallBusinessRate: 0.02,
+      investmentIncomeRate: 0.08,
+    },
+
+    BC: {
+      brackets: [
+        { from: 0, rate: 0.0506 },
+        { from: 47937, rate: 0.077 },
+        { from: 95875, rate: 0.105 },
+        { from: 110076, rate: 0.1229 },
+        { from: 133664, rate: 0.147 },
+        { from: 181232, rate: 0.168 },
+        { from: 252752, rate: 0.205 },
+      ],
+      basicPersonalAmount: 12580,
+      dividendTaxCredit: { eligible: 0.12, nonEligible: 0.0196 },
+      smallBusinessRate: 0.02,
+      investmentIncomeRate: 0.12,
+    },
+
+    ON: {
+      brackets: [
+        { from: 0, rate: 0.0505 },
+        { from: 51446, rate: 0.0915 },
+        { from: 102894, rate: 0.1116 },
+        { from: 150000, rate: 0.1216 },
+        { from: 220000, rate: 0.1316 },
+      ],
+      basicPersonalAmount: 12399,
+      dividendTaxCredit: { eligible: 0.1, nonEligible: 0.029863 },
+      smallBusinessRate: 0.032,
+      investmentIncomeRate: 0.115,
+      surtax: [
+        { over: 5554, rate: 0.2 },
+        { over: 7108, rate: 0.36 },
+      ],
+    },
+  },
+
+  dividendGrossUp: { eligible: 0.38, nonEligible: 0.15 },
+
+  capitalGainsInclusion: 0.5,
+
+  corporateInvestment: {
+    refundableRate: 0.3067,
+    dividendRefundRate: 0.3833,
+  },
+
+  cpp: {
+    basicExemption: 3500,
+    ympe: 68500,
+    employeeRate: 0.0595,
+    yampe: 73200,
+    additionalRate: 0.04,
+  },
+
+  ei: {
+    maxInsurableEarnings: 63200,
+    employeeRate: 0.0166,
+    employerMultiplier: 1.4,
+  },
+
+  rrsp: {
+    rate: 0.18,
+    limit: 31560,
+  },
+};
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { TAX_TABLE_2024 } from "./2024";
+
+// Canadian personal and small-business tax tables, one per tax year, with the
+// federal schedule and each supported province's schedule. Every table is
+// validated the first time it is used, so a typo in the data fails loudly
+// instead of producing wrong numbers.
+
+export const TAX_PROVINCES = ["AB", "BC", "ON"] as const;
+
+export type Province = typeof TAX_PROVINCES[number];
+
+export interface TaxContext {
+  year: number;
+  province: Province;
+}
+
+const rateSchema = z.number().min(0).max(1);
+const amountSchema = z.number().nonnegative();
+
+// Each rate applies to the income above `from`, up to the next bracket's `from`
+const bracketsSchema = z
+  .array(z.object({ from: amountSchema, rate: rateSchema }))
+  .min(1)
+  .refine(brackets => brackets[0].from === 0, "Brackets must start at 0")
+  .refine(
+    brackets => brackets.every((bracket, i) => i === 0 || bracket.from > brackets[i - 1].from),
+    "Brackets must be in increasing order",
+  );
+
+const dividendRatesSchema = z.object({ eligible: rateSchema, nonEligible: rateSchema });
+
+const scheduleSchema = z.object({
+  brackets: bracketsSchema,
+  // Credited at the lowest bracket rate
+  basicPersonalAmount: amountSchema,
+  // As a share of the grossed-up dividend
+  dividendTaxCredit: dividendRatesSchema,
+  // Corporate rate on active business income under the small business limit
+  smallBusinessRate: rateSchema,
+  // Corporate rate on investment income; federally this includes the
+  // additional refundable tax
+  investmentIncomeRate: rateSchema,
+  // Extra tax as a share of the basic tax above each threshold (Ontario)
+  surtax: z.array(z.object({ over: amountSchema, rate: rateSchema })).optional(),
+});
+
+const taxTableSchema = z.object({
+  year: z.number().int().min(2000),
+  federal: scheduleSchema,
+  provinces: z.record(z.enum(TAX_PROVINCES), scheduleSchema),
+  dividendGrossUp: dividendRatesSchema,
+  // Share of a capital gain that is taxable
+  capitalGainsInclusion: rateSchema,
+  corporateInvestment: z.object({
+    // Share of a corporation's investment income added to its refundable
+    // dividend tax on hand (RDTOH)
+    refundableRate: rateSchema,
+    // Refund per dollar of taxable dividends paid, up to the RDTOH balance
+    dividendRefundRate: rateSchema,
+  }),
+  cpp: z.object({
+    basicExemption: amountSchema,
+    // Year's Maximum Pensionable Earnings
+    ympe: amountSchema,
+    employeeRate: rateSchema,
+    // Year's Additional Maximum Pensionable Earnings, for the second tier (CPP2)
+    yampe: amountSchema,
+    additionalRate: rateSchema,
+  }).refine(cpp => cpp.yampe >= cpp.ympe, "YAMPE must not be below YMPE"),
+  ei: z.object({
+    maxInsurableEarnings: amountSchema,
+    employeeRate: rateSchema,
+    // Employer premiums as a multiple of the employee's
+    employerMultiplier: z.number().positive(),
+  }),
+  rrsp: z.object({
+    // Share of earned income that becomes contribution room
+    rate: rateSchema,
+    limit: amountSchema,
+  }),
+});
+
+export type TaxSchedule = z.infer<typeof scheduleSchema>;
+export type TaxTable = z.infer<typeof taxTableSchema>;
+
+// A year's table narrowed to one province
+export interface ResolvedTaxTable extends Omit<TaxTable, "provinces"> {
+  province: Province;
+  provincial: TaxSchedule;
+}
+
+export class TaxTableError extends Error {}
+
+const TAX_TABLE_SOURCES: unknown[] = [TAX_TABLE_2024];
+
+export const DEFAULT_TAX_CONTEXT: TaxContext = { year: 2024, province: "ON" };
+
+// Validates raw tables and indexes them by year
+export function loadTaxTables(sources: unknown[]): Map<number, TaxTable> {
+  const tables = new Map<number, TaxTable>();
+  for (const source of sources) {
+    const parsed = taxTableSchema.safeParse(source);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new TaxTableError(`Invalid tax table at ${issue.path.join(".") || "root"}: ${issue.message}`);
+    }
+    if (tables.has(parsed.data.year)) {
+      throw new TaxTableError(`Duplicate tax table for ${parsed.data.year}`);
+    }
+    tables.set(parsed.data.year, parsed.data);
+  }
+  return tables;
+}
+
+let tables: Map<number, TaxTable> | undefined;
+
+function taxTables(): Map<number, TaxTable> {
+  tables ??= loadTaxTables(TAX_TABLE_SOURCES);
+  return tables;
+}
+
+export function listTaxYears(): number[] {
+  return Array.from(taxTables().keys()).sort((a, b) => a - b);
+}
+
+export function hasTaxTable({ year, province }: TaxContext): boolean {
+  return Boolean(taxTables().get(year)?.provinces[province]);
+}
+
+export function getTaxTable({ year, province }: TaxContext): ResolvedTaxTable {
+  const table = taxTables().get(year);
+  if (!table) {
+    throw new TaxTableError(`No tax table for ${year}. Available years: ${listTaxYears().join(", ")}`);
+  }
+  const provincial = table.provinces[province];
+  if (!provincial) {
+    throw new TaxTableError(`The ${year} tax table does not cover ${province}`);
+  }
+  const { provinces, ...rest } = table;
+  return { ...rest, province, provincial };
+}